@@ -0,0 +1,309 @@
+// Batch asset export: pick nodes (explicit ids, every node with exportSettings, or the children of a frame),
+// render them through images/:key in chunks per format/scale, download the results and write them under
+// an output directory with names from a template.
+//
+// Name template placeholders: {name} {page} {frame} {id} {ext} {scale} {scaleSuffix} {suffix}
+// ({scaleSuffix} is "" at 1x and "@2x"/"@3x" otherwise; slashes in layer names become folders).
+
+import { join } from "node:path";
+import { getFile, getImages } from "./figma_client.js";
+import { nodeChildren, nodeSize } from "./figma_nodes.js";
+import type { ExportSetting, FigmaNode } from "./figma_types.js";
+import { findNodeById, normalizeNodeId, writeOutputFile } from "./figma_utils.js";
+
+export type ExportFormat = "png" | "jpg" | "svg" | "pdf";
+
+export type AssetSelector = "ids" | "exportSettings" | "children";
+
+export type AssetExportOptions = {
+  selector: AssetSelector;
+  nodeIds?: string[];
+  parentNodeId?: string;
+  formats?: ExportFormat[];
+  scales?: number[];
+  outputDir: string;
+  nameTemplate?: string;
+  svgIncludeId?: boolean;
+  svgOutlineText?: boolean;
+};
+
+export type AssetTarget = {
+  nodeId: string;
+  name: string;
+  page: string;
+  frame: string;
+  format: ExportFormat;
+  scale: number;
+  suffix: string;
+};
+
+export const DEFAULT_NAME_TEMPLATE = "{page}/{name}{suffix}{scaleSuffix}.{ext}";
+
+const IMAGE_BATCH_SIZE = 50;
+const DOWNLOAD_CONCURRENCY = 4;
+const DOWNLOAD_TIMEOUT_MS = 60_000;
+
+const VECTOR_FORMATS = new Set<ExportFormat>(["svg", "pdf"]);
+
+// The range images/:key accepts; one scale outside it fails the whole request
+const MIN_SCALE = 0.01;
+const MAX_SCALE = 4;
+
+type Located = { node: FigmaNode; page: string; frame: string };
+
+function locateNodes(document: FigmaNode): Map<string, Located> {
+  const index = new Map<string, Located>();
+  for (const page of nodeChildren(document)) {
+    const pageName = page.name || page.id || "page";
+    const walk = (node: FigmaNode, frame: string) => {
+      index.set(node.id, { node, page: pageName, frame });
+      for (const child of nodeChildren(node)) walk(child, frame || child.name);
+    };
+    for (const child of nodeChildren(page)) walk(child, child.name);
+  }
+  return index;
+}
+
+// Export settings constrained by WIDTH/HEIGHT become the equivalent scale for the node's box, clamped to
+// what Figma renders (a 2000px-wide export of a 10px icon would otherwise ask for 200x)
+function scaleFromConstraint(setting: ExportSetting, node: FigmaNode): number {
+  const constraint = setting.constraint;
+  const size = nodeSize(node);
+  let scale = constraint && constraint.value > 0 ? constraint.value : 1;
+  if (constraint?.type === "WIDTH" && size?.width) scale = constraint.value / size.width;
+  if (constraint?.type === "HEIGHT" && size?.height) scale = constraint.value / size.height;
+  return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+}
+
+/** Parse a comma-separated format list (CLI input); throws on anything but png/jpg/svg/pdf. */
+export function parseExportFormats(raw: string): ExportFormat[] {
+  return splitList(raw).map((f) => {
+    const format = f.toLowerCase();
+    if (!isExportFormat(format)) throw new Error(`Unknown export format "${f}" (expected png, jpg, svg or pdf)`);
+    return format;
+  });
+}
+
+/** Parse a comma-separated scale list (CLI input); throws on values that are not numbers in 0.01-4. */
+export function parseExportScales(raw: string): number[] {
+  return splitList(raw).map((s) => {
+    const scale = Number(s);
+    if (!Number.isFinite(scale) || scale < MIN_SCALE || scale > MAX_SCALE) {
+      throw new Error(`Invalid export scale "${s}" (expected a number from ${MIN_SCALE} to ${MAX_SCALE})`);
+    }
+    return scale;
+  });
+}
+
+export function parseAssetSelector(raw: string): AssetSelector {
+  if (raw === "ids" || raw === "exportSettings" || raw === "children") return raw;
+  throw new Error(`Unknown selector "${raw}" (expected ids, exportSettings or children)`);
+}
+
+function isExportFormat(value: string): value is ExportFormat {
+  return value === "png" || value === "jpg" || value === "svg" || value === "pdf";
+}
+
+function splitList(raw: string): string[] {
+  return raw
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/** Resolve the selector into one target per node × format × scale (vector formats only at 1x). */
+export function selectAssetTargets(document: FigmaNode, options: AssetExportOptions): AssetTarget[] {
+  const index = locateNodes(document);
+  const formats = options.formats?.length ? options.formats : (["png"] as ExportFormat[]);
+  const scales = options.scales?.length ? options.scales : [1];
+  const targets: AssetTarget[] = [];
+  const seen = new Set<string>();
+  const push = (located: Located, format: ExportFormat, scale: number, suffix = "") => {
+    const effectiveScale = VECTOR_FORMATS.has(format) ? 1 : Math.round(scale * 1000) / 1000;
+    const key = `${located.node.id}|${format}|${effectiveScale}|${suffix}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    targets.push({
+      nodeId: located.node.id,
+      name: located.node.name || located.node.id,
+      page: located.page,
+      frame: located.frame,
+      format,
+      scale: effectiveScale,
+      suffix,
+    });
+  };
+  const pushDefaults = (located: Located) => {
+    for (const format of formats) for (const scale of scales) push(located, format, scale);
+  };
+
+  if (options.selector === "exportSettings") {
+    for (const located of index.values()) {
+      for (const setting of located.node.exportSettings ?? []) {
+        const format = setting.format.toLowerCase();
+        if (!isExportFormat(format)) continue;
+        push(located, format, scaleFromConstraint(setting, located.node), setting.suffix ?? "");
+      }
+    }
+  } else if (options.selector === "children") {
+    if (!options.parentNodeId) throw new Error("selector=children needs a parent node (node-id in the URL)");
+    const parent = index.get(normalizeNodeId(options.parentNodeId)) ?? { node: findNodeById(document, options.parentNodeId), page: "", frame: "" };
+    if (!parent.node) throw new Error(`Node ${options.parentNodeId} not found in file`);
+    for (const child of nodeChildren(parent.node)) {
+      const located = index.get(child.id);
+      if (located && child.visible !== false) pushDefaults(located);
+    }
+  } else {
+    const ids = options.nodeIds ?? [];
+    if (ids.length === 0) throw new Error("selector=ids needs at least one node id");
+    for (const id of ids) {
+      const located = index.get(normalizeNodeId(id));
+      if (!located) throw new Error(`Node ${id} not found in file`);
+      pushDefaults(located);
+    }
+  }
+  return targets;
+}
+
+function sanitizeSegment(segment: string): string {
+  const cleaned = segment
+    .replace(/[<>:"\\|?*\u0000-\u001f]/g, "-")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^\.+/, "");
+  return cleaned || "_";
+}
+
+export function renderAssetName(template: string, target: AssetTarget): string {
+  const values: Record<string, string> = {
+    name: target.name,
+    page: target.page,
+    frame: target.frame,
+    id: target.nodeId.replace(/:/g, "-"),
+    ext: target.format,
+    scale: String(target.scale),
+    scaleSuffix: target.scale === 1 ? "" : `@${target.scale}x`,
+    suffix: target.suffix,
+  };
+  const rendered = template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+  return rendered
+    .split("/")
+    .filter((part) => part.length > 0)
+    .map(sanitizeSegment)
+    .join("/");
+}
+
+export async function downloadAsset(url: string): Promise<Uint8Array> {
+  const res = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+  if (!res.ok) throw new Error(`download failed with HTTP ${res.status}`);
+  return new Uint8Array(await res.arrayBuffer());
+}
+
+/**
+ * Render URLs (null when Figma could not render a node) for `nodeIds`, IMAGE_BATCH_SIZE ids per request.
+ * A failed batch throws, or with `onBatchError` is reported there and the remaining batches still run.
+ */
+export async function fetchImageUrls(
+  fileKey: string,
+  token: string,
+  nodeIds: string[],
+  params: Record<string, string>,
+  onBatchError?: (ids: string[], reason: string) => void
+): Promise<Map<string, string | null>> {
+  const urls = new Map<string, string | null>();
+  const ids = Array.from(new Set(nodeIds));
+  for (let i = 0; i < ids.length; i += IMAGE_BATCH_SIZE) {
+    const chunk = ids.slice(i, i + IMAGE_BATCH_SIZE);
+    try {
+      const data = await getImages(fileKey, token, { ids: chunk.join(","), ...params });
+      if (data.err) throw new Error(`Figma could not render images: ${data.err}`);
+      for (const id of chunk) urls.set(id, data.images[id] ?? null);
+    } catch (err) {
+      if (!onBatchError) throw err;
+      onBatchError(chunk, err instanceof Error ? err.message : String(err));
+    }
+  }
+  return urls;
+}
+
+/** Render URLs for every target, batched per format/scale group, with the error of each target whose batch failed. */
+async function renderUrls(fileKey: string, token: string, targets: AssetTarget[], options: AssetExportOptions) {
+  const groups = new Map<string, AssetTarget[]>();
+  for (const t of targets) {
+    const key = `${t.format}|${t.scale}`;
+    groups.set(key, [...(groups.get(key) ?? []), t]);
+  }
+  const urls = new Map<AssetTarget, string | null>();
+  const errors = new Map<AssetTarget, string>();
+  for (const group of groups.values()) {
+    const first = group[0] as AssetTarget;
+    const params: Record<string, string> = { format: first.format };
+    if (!VECTOR_FORMATS.has(first.format)) params.scale = String(first.scale);
+    if (first.format === "svg") {
+      params.svg_include_id = String(options.svgIncludeId ?? false);
+      params.svg_outline_text = String(options.svgOutlineText ?? true);
+    }
+    const batchErrors = new Map<string, string>();
+    const rendered = await fetchImageUrls(fileKey, token, group.map((t) => t.nodeId), params, (ids, reason) => {
+      for (const id of ids) batchErrors.set(id, reason);
+    });
+    for (const t of group) {
+      urls.set(t, rendered.get(t.nodeId) ?? null);
+      const error = batchErrors.get(t.nodeId);
+      if (error) errors.set(t, error);
+    }
+  }
+  return { urls, errors };
+}
+
+/** Select, render, download and write assets. Failures are collected per asset instead of aborting the run. */
+export async function exportAssets(fileKey: string, token: string, options: AssetExportOptions) {
+  const file = await getFile(fileKey, token);
+  const targets = selectAssetTargets(file.document, options);
+  const template = options.nameTemplate || DEFAULT_NAME_TEMPLATE;
+  const { urls, errors } = await renderUrls(fileKey, token, targets, options);
+
+  const written: Array<{ nodeId: string; format: ExportFormat; scale: number; path: string; bytes: number }> = [];
+  const failed: Array<{ nodeId: string; format: ExportFormat; scale: number; reason: string }> = [];
+  const usedNames = new Set<string>();
+  const jobs = targets.map((target) => {
+    const base = renderAssetName(template, target);
+    const dot = base.lastIndexOf(".");
+    const hasExtension = dot > base.lastIndexOf("/") + 1;
+    let name = base;
+    for (let i = 2; usedNames.has(name); i++) {
+      name = hasExtension ? `${base.slice(0, dot)}-${i}${base.slice(dot)}` : `${base}-${i}`;
+    }
+    usedNames.add(name);
+    return { target, name };
+  });
+
+  let next = 0;
+  const worker = async () => {
+    while (next < jobs.length) {
+      const { target, name } = jobs[next++] as { target: AssetTarget; name: string };
+      const base = { nodeId: target.nodeId, format: target.format, scale: target.scale };
+      const url = urls.get(target);
+      const error = errors.get(target);
+      if (error) {
+        failed.push({ ...base, reason: error });
+        continue;
+      }
+      if (!url) {
+        failed.push({ ...base, reason: "Figma returned no image (node may be invisible or empty)" });
+        continue;
+      }
+      try {
+        const bytes = await downloadAsset(url);
+        const path = await writeOutputFile(join(options.outputDir, name), bytes);
+        written.push({ ...base, path, bytes: bytes.byteLength });
+      } catch (err) {
+        failed.push({ ...base, reason: err instanceof Error ? err.message : String(err) });
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(DOWNLOAD_CONCURRENCY, jobs.length) }, worker));
+
+  written.sort((a, b) => a.path.localeCompare(b.path));
+  return { fileName: file.name, fileKey, requested: targets.length, written, failed };
+}
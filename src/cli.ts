@@ -0,0 +1,383 @@
+#!/usr/bin/env node
+// figma-mcp: one CLI for the reports behind the MCP tools, plus `serve` to start the MCP server itself.
+// Usage: figma-mcp <command> [<figma_url>] [--url <url>] [--node <id>] [--page <name>]
+//                  [--format json|md|table|csv] [--output <file>]
+// The URL falls back to FIGMA_DEFAULT_URL, --node to the URL's node-id. FIGMA_TOKEN is required.
+// Commands that write files (tokens, css, assets, icons, strings) write them to --output and print a summary instead.
+
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { exportAssets, parseAssetSelector, parseExportFormats, parseExportScales } from "./asset_export.js";
+import { formatOutput, OUTPUT_FORMATS, type CommandOutput, type OutputFormat } from "./cli_output.js";
+import { generateCssTheme } from "./css_theme.js";
+import { exportDesignTokens } from "./design_tokens.js";
+import { runAnalyzeReport, runComponentUsage, runInventory } from "./file_reports.js";
+import { getFigmaToken, parseFigmaUrl, writeOutputFile, type ReportScope } from "./figma_utils.js";
+import { extractIconLibrary } from "./icon_library.js";
+import { KEY_MAP_FILE_NAME, loadCatalogKeyMap, runStringCatalog, writeStringCatalog } from "./string_catalog.js";
+import { runButtonInspection, runCardInspection, runUiInspection } from "./ui_inspection.js";
+import { runUiVariants } from "./ui_variants.js";
+
+const OPTIONS = {
+  url: { type: "string" },
+  node: { type: "string" },
+  page: { type: "string" },
+  format: { type: "string", default: "json" },
+  output: { type: "string" },
+  tailwind: { type: "string", default: "tailwind.theme.js" },
+  "include-unstyled": { type: "boolean", default: false },
+  selector: { type: "string" },
+  ids: { type: "string" },
+  formats: { type: "string", default: "" },
+  scales: { type: "string", default: "" },
+  template: { type: "string" },
+  "svg-include-id": { type: "boolean", default: false },
+  "svg-keep-text": { type: "boolean", default: false },
+  "keep-colors": { type: "boolean", default: false },
+  "source-language": { type: "string", default: "en" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+type CliOptions = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>["values"];
+
+type Command = {
+  description: string;
+  /** Set for commands that write files: where they go without --output. */
+  defaultOutput?: string;
+  run: (fileKey: string, token: string, scope: ReportScope, options: CliOptions & { output: string }) => Promise<CommandOutput>;
+};
+
+const splitList = (raw: string | undefined) => (raw ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+
+const sizeText = (size?: { width: number; height: number }) => (size ? `${size.width}x${size.height}` : "");
+
+async function looksOutput(fileKey: string, token: string, scope: ReportScope, category: string, title: string): Promise<CommandOutput> {
+  const result = await runUiVariants(fileKey, token, category, scope);
+  const rows = result.looks.map((l) => ({
+    look: l.id,
+    kind: l.kind,
+    count: l.count,
+    label: l.label,
+    component: l.components[0]?.name,
+    closest: l.closestOfficial ? `${l.closestOfficial.look} (${l.closestOfficial.differences.join(", ")})` : undefined,
+  }));
+  const outliers = result.outliers.map((o) => ({
+    page: o.page,
+    name: o.name,
+    nodeId: o.nodeId,
+    look: o.look,
+    closest: o.closestOfficial?.component ?? o.closestOfficial?.look,
+    path: o.path,
+  }));
+  return {
+    title: `${result.distinctLooks} ${title} in ${result.fileName} (${result.officialLooks} official, ${result.oneOffLooks} one-off)`,
+    data: result,
+    sections: [
+      { title: "Looks", rows },
+      { title: "One-off outliers", rows: outliers },
+    ],
+  };
+}
+
+const COMMANDS: Record<string, Command> = {
+  analyze: {
+    description: "pages, color palette, fill styles and per-view stats",
+    run: async (fileKey, token, scope) => {
+      const report = await runAnalyzeReport(fileKey, token, scope);
+      return {
+        title: `Analysis of ${report.fileName}`,
+        data: report,
+        sections: [
+          {
+            title: "Views",
+            rows: report.views.map((v) => ({
+              page: v.page,
+              view: v.name,
+              type: v.type,
+              size: v.width !== undefined && v.height !== undefined ? `${v.width}x${v.height}` : "",
+              nodes: v.totalNodes,
+              text: v.textCount,
+              vectors: v.vectorCount,
+              instances: v.instanceCount,
+              imageFills: v.imageFillCount,
+              colors: v.colors,
+            })),
+          },
+          { title: "Color palette", rows: report.palette.map((c) => ({ hex: c.hex, count: c.count })) },
+          { title: "Fill styles", rows: report.fillStyles.map((name) => ({ name })) },
+        ],
+      };
+    },
+  },
+  inventory: {
+    description: "components, component sets and styles with instance counts",
+    run: async (fileKey, token, scope) => {
+      const inventory = await runInventory(fileKey, token, scope);
+      return {
+        title: `Inventory of ${inventory.fileName}`,
+        data: inventory,
+        sections: [
+          {
+            title: "Components",
+            rows: inventory.components.map((c) => ({ name: c.name, nodeId: c.nodeId, componentSetId: c.componentSetId, instances: c.instanceCount })),
+          },
+          { title: "Component sets", rows: inventory.componentSets.map((s) => ({ name: s.name, nodeId: s.nodeId })) },
+          { title: "Styles", rows: inventory.styles.map((s) => ({ name: s.name, styleType: s.styleType, styleId: s.styleId })) },
+        ],
+      };
+    },
+  },
+  components: {
+    description: "component instances used on each page",
+    run: async (fileKey, token, scope) => {
+      const usage = await runComponentUsage(fileKey, token, scope);
+      return {
+        title: `Component usage in ${usage.fileName}`,
+        data: usage,
+        sections: [
+          {
+            title: "Usage per page",
+            rows: usage.pages.flatMap((p) =>
+              p.componentsUsed.map((c) => ({ page: p.pageName, component: c.name, componentId: c.componentId, count: c.count }))
+            ),
+          },
+        ],
+      };
+    },
+  },
+  ui: {
+    description: "buttons, inputs, cards, ... per page by the UI rules (icons excluded)",
+    run: async (fileKey, token, scope) => {
+      const result = await runUiInspection(fileKey, token, scope);
+      const rows = result.pages.flatMap((p) =>
+        Object.entries(p.ui).flatMap(([kind, items]) =>
+          items.map((item) => ({
+            page: p.pageName,
+            kind,
+            name: item.name,
+            nodeId: item.nodeId,
+            rule: item.rule,
+            confidence: item.confidence,
+            path: item.path,
+          }))
+        )
+      );
+      return { title: `UI elements in ${result.fileName}`, data: result, sections: [{ title: "UI elements", rows }] };
+    },
+  },
+  buttons: {
+    description: "button fills, radius, stroke, size and label text",
+    run: async (fileKey, token, scope) => {
+      const result = await runButtonInspection(fileKey, token, scope);
+      const rows = result.buttons.map((b) => ({
+        page: b.page,
+        name: b.info.name,
+        size: sizeText(b.info.size),
+        fills: b.info.fills,
+        radius: b.info.cornerRadius ?? b.info.rectangleCornerRadii,
+        stroke: b.info.stroke?.strokeWeight,
+        text: b.info.text.samples,
+        path: b.path,
+      }));
+      return { title: `Buttons in ${result.fileName}`, data: result, sections: [{ title: "Buttons", rows }] };
+    },
+  },
+  cards: {
+    description: "card containers with visuals, content summary and role",
+    run: async (fileKey, token, scope) => {
+      const result = await runCardInspection(fileKey, token, scope);
+      const rows = result.cards.map((c) => ({
+        page: c.page,
+        view: c.view,
+        role: c.role,
+        name: c.info.name,
+        size: sizeText(c.info.size),
+        fills: c.info.fills,
+        radius: c.info.cornerRadius ?? c.info.rectangleCornerRadii,
+        texts: c.info.content.textCount,
+        images: c.info.content.imageFillCount,
+        icons: c.info.content.iconCount,
+        instances: c.info.content.instanceCount,
+        path: c.path,
+      }));
+      return { title: `Cards in ${result.fileName}`, data: result, sections: [{ title: "Cards", rows }] };
+    },
+  },
+  "button-looks": {
+    description: "buttons grouped by look (height, fill, radius, stroke, text) with one-off outliers",
+    run: (fileKey, token, scope) => looksOutput(fileKey, token, scope, "button", "button looks"),
+  },
+  "card-looks": {
+    description: "cards grouped by look (height, fill, radius, stroke, text) with one-off outliers",
+    run: (fileKey, token, scope) => looksOutput(fileKey, token, scope, "card", "card looks"),
+  },
+  tokens: {
+    description: "FILL/TEXT/EFFECT/GRID styles as W3C design tokens (tokens.json)",
+    defaultOutput: "tokens.json",
+    run: async (fileKey, token, _scope, options) => {
+      const { fileName, tokens, counts, unresolved } = await exportDesignTokens(fileKey, token);
+      const written = await writeOutputFile(options.output, `${JSON.stringify(tokens, null, 2)}\n`);
+      return {
+        title: `Design tokens of ${fileName} written to ${written}`,
+        data: { fileName, written, counts, unresolved },
+        sections: [
+          { title: "Tokens", rows: Object.entries(counts).map(([type, count]) => ({ type, count })) },
+          { title: "Skipped styles", rows: unresolved.map((u) => ({ styleType: u.styleType, name: u.name, reason: u.reason })) },
+        ],
+      };
+    },
+  },
+  css: {
+    description: "CSS custom properties (theme.css) and a Tailwind theme (--tailwind)",
+    defaultOutput: "theme.css",
+    run: async (fileKey, token, _scope, options) => {
+      const { fileName, css, tailwind, variableCount } = await generateCssTheme(fileKey, token, {
+        includeUnstyledColors: options["include-unstyled"],
+      });
+      const written = [await writeOutputFile(options.output, css), await writeOutputFile(options.tailwind, tailwind)];
+      return {
+        title: `CSS theme of ${fileName} (${variableCount} variables)`,
+        data: { fileName, written, variableCount },
+        sections: [{ title: "Written", rows: written.map((path) => ({ path })) }],
+      };
+    },
+  },
+  assets: {
+    description: "export nodes as PNG/JPG/SVG/PDF files into a directory (assets)",
+    defaultOutput: "assets",
+    run: async (fileKey, token, scope, options) => {
+      const nodeIds = splitList(options.ids);
+      if (nodeIds.length === 0 && scope.rootNodeId) nodeIds.push(scope.rootNodeId);
+      const result = await exportAssets(fileKey, token, {
+        selector: parseAssetSelector(options.selector || (nodeIds.length > 0 ? "ids" : "exportSettings")),
+        nodeIds,
+        formats: parseExportFormats(options.formats),
+        scales: parseExportScales(options.scales),
+        outputDir: options.output,
+        svgIncludeId: options["svg-include-id"],
+        svgOutlineText: !options["svg-keep-text"],
+        ...(options.template ? { nameTemplate: options.template } : {}),
+        ...(scope.rootNodeId ? { parentNodeId: scope.rootNodeId } : {}),
+      });
+      return {
+        title: `${result.written.length}/${result.requested} assets of ${result.fileName} written to ${options.output}`,
+        data: result,
+        sections: [
+          { title: "Written", rows: result.written.map((w) => ({ path: w.path, nodeId: w.nodeId, bytes: w.bytes })) },
+          { title: "Failed", rows: result.failed.map((f) => ({ nodeId: f.nodeId, format: f.format, scale: f.scale, reason: f.reason })) },
+        ],
+      };
+    },
+  },
+  icons: {
+    description: "icon components as clean SVGs, an icons.json manifest and React components (icons)",
+    defaultOutput: "icons",
+    run: async (fileKey, token, _scope, options) => {
+      const result = await extractIconLibrary(fileKey, token, {
+        outputDir: options.output,
+        currentColor: !options["keep-colors"],
+      });
+      return {
+        title: `${result.written}/${result.iconCount} icons of ${result.fileName} written; manifest at ${result.manifestPath}`,
+        data: result,
+        sections: [
+          { title: "Failed", rows: result.failed.map((f) => ({ name: f.figmaName, componentId: f.componentId, reason: f.reason })) },
+        ],
+      };
+    },
+  },
+  strings: {
+    description: "UI copy as an i18n catalog: JSON, ICU MessageFormat and XLIFF (i18n)",
+    defaultOutput: "i18n",
+    run: async (fileKey, token, scope, options) => {
+      // keys from the previous export in the same directory are reused, see string_catalog.ts
+      const previousKeys = await loadCatalogKeyMap(join(options.output, KEY_MAP_FILE_NAME));
+      const catalog = await runStringCatalog(fileKey, token, scope, previousKeys);
+      const written = await writeStringCatalog(catalog, options.output, { sourceLanguage: options["source-language"], previousKeys });
+      const { textNodes, strings, withVariables } = catalog.stats;
+      return {
+        title: `${strings} unique strings from ${textNodes} text layers in ${catalog.fileName}, ${withVariables} with variables`,
+        data: { fileName: catalog.fileName, written, stats: catalog.stats },
+        sections: [{ title: "Written", rows: written.map((path) => ({ path })) }],
+      };
+    },
+  },
+};
+
+function usage(): string {
+  const width = Math.max(...Object.keys(COMMANDS).map((c) => c.length), "serve".length);
+  return [
+    "Usage: figma-mcp <command> [<figma_url>] [options]",
+    "",
+    "Commands:",
+    ...Object.entries(COMMANDS).map(([name, c]) => `  ${name.padEnd(width)}  ${c.description}`),
+    `  ${"serve".padEnd(width)}  start the MCP server on stdio`,
+    "",
+    "Options:",
+    "  --url <url>        Figma file URL (default: FIGMA_DEFAULT_URL)",
+    "  --node <id>        only report on this node (default: the URL's node-id)",
+    "  --page <name>      only report on this page",
+    "  --format <format>  json (default), md, table or csv (csv prints the first table only)",
+    "  --output <path>    write to a file instead of stdout; for tokens, css, assets, icons and strings the file or",
+    "                     directory to write (default in parentheses above)",
+    "",
+    "css:",
+    "  --tailwind <file>   Tailwind theme file (default: tailwind.theme.js)",
+    "  --include-unstyled  also emit solid colors that are not backed by a FILL style",
+    "assets:",
+    "  --selector <kind>   ids, exportSettings or children (default: ids with --ids/--node, else exportSettings)",
+    "  --ids <ids>         comma-separated node ids to export",
+    "  --formats <list>    png, jpg, svg or pdf (default: png; exportSettings uses the node's own)",
+    "  --scales <list>     e.g. 1,2,3 (default: 1; exportSettings uses the node's own)",
+    "  --template <tpl>    file name template (default: {page}/{name}{suffix}{scaleSuffix}.{ext})",
+    "  --svg-include-id    keep layer ids in SVG output",
+    "  --svg-keep-text     keep SVG text as <text> instead of outlining it",
+    "icons:",
+    "  --keep-colors       keep the original colors instead of currentColor",
+    "strings:",
+    "  --source-language <lang>  XLIFF source-language (default: en)",
+    "",
+  ].join("\n");
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({ args: process.argv.slice(2), allowPositionals: true, options: OPTIONS });
+  const [commandName, positionalUrl] = positionals;
+  if (!commandName || commandName === "help" || values.help) {
+    process.stdout.write(usage());
+    return;
+  }
+  if (commandName === "serve") {
+    // server.ts starts the stdio server when loaded
+    await import("./server.js");
+    return;
+  }
+  const command = COMMANDS[commandName];
+  if (!command) throw new Error(`Unknown command "${commandName}"\n\n${usage()}`);
+  const format = values.format as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) throw new Error(`Unknown format "${values.format}" (expected ${OUTPUT_FORMATS.join(", ")})`);
+
+  const token = getFigmaToken(process.env);
+  const url = values.url || positionalUrl || process.env.FIGMA_DEFAULT_URL || "";
+  if (!url) throw new Error("Provide a Figma URL (--url or first argument) or set FIGMA_DEFAULT_URL");
+  const { fileKey, nodeId } = parseFigmaUrl(url);
+  const rootNodeId = values.node || nodeId;
+  const scope: ReportScope = {
+    ...(values.page ? { pageName: values.page } : {}),
+    ...(rootNodeId ? { rootNodeId } : {}),
+  };
+
+  const output = values.output || command.defaultOutput || "";
+  const text = formatOutput(await command.run(fileKey, token, scope, { ...values, output }), format);
+  if (values.output && !command.defaultOutput) {
+    console.log(`Wrote ${await writeOutputFile(values.output, text)}`);
+  } else {
+    process.stdout.write(text);
+  }
+}
+
+main().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+// Output formats for the figma-mcp CLI. Every subcommand returns its full result (printed as-is for json)
+// plus one or more flat tables; md and table render every section, csv only the first (primary) one.
+
+export type OutputFormat = "json" | "md" | "table" | "csv";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["json", "md", "table", "csv"];
+
+export type Cell = string | number | boolean | null | undefined | Array<string | number>;
+
+export type Section = { title: string; rows: Array<Record<string, Cell>> };
+
+export type CommandOutput = { title: string; data: unknown; sections: Section[] };
+
+function cellText(value: Cell): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+}
+
+function columnsOf(rows: Array<Record<string, Cell>>): string[] {
+  const columns: string[] = [];
+  for (const row of rows) for (const key of Object.keys(row)) if (!columns.includes(key)) columns.push(key);
+  return columns;
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(rows: Array<Record<string, Cell>>): string {
+  const columns = columnsOf(rows);
+  const lines = [columns.map(csvField).join(",")];
+  for (const row of rows) lines.push(columns.map((c) => csvField(cellText(row[c]))).join(","));
+  return `${lines.join("\n")}\n`;
+}
+
+function markdownTable(rows: Array<Record<string, Cell>>): string[] {
+  if (rows.length === 0) return ["_None._"];
+  const columns = columnsOf(rows);
+  const escape = (s: string) => s.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+  return [
+    `| ${columns.map(escape).join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${columns.map((c) => escape(cellText(row[c]))).join(" | ")} |`),
+  ];
+}
+
+function textTable(rows: Array<Record<string, Cell>>): string[] {
+  if (rows.length === 0) return ["(none)"];
+  const columns = columnsOf(rows);
+  const cells = rows.map((row) => columns.map((c) => cellText(row[c]).replace(/\r?\n/g, " ")));
+  const widths = columns.map((c, i) => Math.max(c.length, ...cells.map((r) => (r[i] as string).length)));
+  const line = (values: string[]) => values.map((v, i) => v.padEnd(widths[i] as number)).join("  ").trimEnd();
+  return [line(columns), line(widths.map((w) => "-".repeat(w))), ...cells.map(line)];
+}
+
+export function formatOutput(output: CommandOutput, format: OutputFormat): string {
+  switch (format) {
+    case "json":
+      return `${JSON.stringify(output.data, null, 2)}\n`;
+    case "csv":
+      return toCsv(output.sections[0]?.rows ?? []);
+    case "md":
+      return `${[`# ${output.title}`, ...output.sections.flatMap((s) => ["", `## ${s.title}`, "", ...markdownTable(s.rows)])].join("\n")}\n`;
+    case "table":
+      return `${[output.title, ...output.sections.flatMap((s) => ["", `${s.title}:`, ...textTable(s.rows)])].join("\n")}\n`;
+  }
+}
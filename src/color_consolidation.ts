@@ -0,0 +1,153 @@
+// Color consolidation: clusters solid fill/stroke colors by perceptual distance (CIEDE2000) so that
+// near-duplicates like #1A73E8 / #1A74E8 show up as one color with off-by-a-hair variants.
+// Clustering uses RGB only; alpha is reported per variant instead of being mixed into ΔE.
+
+import { deltaE } from "./color_math.js";
+import { fillStyleColors, loadStyleSources } from "./design_tokens.js";
+import { getFile } from "./figma_client.js";
+import { nodeFills, nodeStrokes } from "./figma_nodes.js";
+import type { FigmaNode } from "./figma_types.js";
+import { rgbaToHex, scopeRoots, traverseWithPath } from "./figma_utils.js";
+
+export type ColorUsage = {
+  hex: string;
+  alpha: number;
+  nodeId: string;
+  path: string;
+  property: "fill" | "stroke";
+  styleId?: string;
+};
+
+type StyleColor = { styleId: string; name: string; hex: string; alpha: number };
+
+type ColorEntry = { hex: string; usages: ColorUsage[]; style?: StyleColor };
+
+export type ConsolidationOptions = {
+  threshold?: number;
+  maxNodesPerVariant?: number;
+  // Only collect colors used by this node and its descendants.
+  rootNodeId?: string;
+};
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+export function collectColorUsages(document: FigmaNode, rootNodeId?: string): ColorUsage[] {
+  const usages: ColorUsage[] = [];
+  for (const root of scopeRoots(document, rootNodeId ? { rootNodeId } : {})) {
+    traverseWithPath(
+      root.node,
+      (n: FigmaNode, path: string[]) => {
+        for (const property of ["fill", "stroke"] as const) {
+          const paints = property === "fill" ? nodeFills(n) : nodeStrokes(n);
+          for (const paint of paints) {
+            if (paint.type !== "SOLID" || !paint.color) continue;
+            const usage: ColorUsage = {
+              hex: rgbaToHex(paint.color).rgb,
+              alpha: round2((paint.color.a ?? 1) * (paint.opacity ?? 1)),
+              nodeId: n.id,
+              path: path.join(" / "),
+              property,
+            };
+            const styleId = n.styles?.[property] ?? n.styles?.[`${property}s`];
+            if (styleId) usage.styleId = styleId;
+            usages.push(usage);
+          }
+        }
+      },
+      root.parentPath
+    );
+  }
+  return usages;
+}
+
+function alphaHistogram(usages: ColorUsage[]): Array<{ alpha: number; count: number }> {
+  const counts = new Map<number, number>();
+  for (const u of usages) counts.set(u.alpha, (counts.get(u.alpha) ?? 0) + 1);
+  return Array.from(counts.entries())
+    .sort((a, b) => b[0] - a[0])
+    .map(([alpha, count]) => ({ alpha, count }));
+}
+
+/**
+ * Greedy clustering: style-backed colors seed clusters first, then colors by usage count.
+ * A color joins the closest existing canonical within `threshold`, otherwise starts its own cluster.
+ */
+export function consolidateColors(usages: ColorUsage[], styleColors: StyleColor[], options: ConsolidationOptions = {}) {
+  const threshold = options.threshold ?? 2;
+  const maxNodes = options.maxNodesPerVariant ?? 50;
+
+  const entries = new Map<string, ColorEntry>();
+  for (const style of styleColors) {
+    if (!entries.has(style.hex)) entries.set(style.hex, { hex: style.hex, usages: [], style });
+  }
+  for (const u of usages) {
+    const entry = entries.get(u.hex) ?? { hex: u.hex, usages: [] };
+    entry.usages.push(u);
+    entries.set(u.hex, entry);
+  }
+
+  const ordered = Array.from(entries.values()).sort(
+    (a, b) => Number(!!b.style) - Number(!!a.style) || b.usages.length - a.usages.length || a.hex.localeCompare(b.hex)
+  );
+  const clusters: Array<{ canonical: ColorEntry; members: Array<{ entry: ColorEntry; deltaE: number }> }> = [];
+  for (const entry of ordered) {
+    let best: { index: number; distance: number } | undefined;
+    for (let index = 0; index < clusters.length; index++) {
+      const cluster = clusters[index];
+      if (!cluster) continue;
+      const distance = deltaE(cluster.canonical.hex, entry.hex);
+      if (distance <= threshold && (!best || distance < best.distance)) best = { index, distance };
+    }
+    // Two different styles are never merged into each other; that is a naming decision, not a typo.
+    const target = best ? clusters[best.index] : undefined;
+    if (target && best && !(entry.style && target.canonical.style)) {
+      target.members.push({ entry, deltaE: round2(best.distance) });
+    } else {
+      clusters.push({ canonical: entry, members: [] });
+    }
+  }
+
+  const result = clusters
+    .filter((c) => c.members.length > 0)
+    .map((c) => {
+      const totalUsage = c.canonical.usages.length + c.members.reduce((sum, m) => sum + m.entry.usages.length, 0);
+      return {
+        canonical: {
+          hex: c.canonical.hex,
+          ...(c.canonical.style ? { styleId: c.canonical.style.styleId, styleName: c.canonical.style.name } : {}),
+          usageCount: c.canonical.usages.length,
+          alphas: alphaHistogram(c.canonical.usages),
+        },
+        totalUsage,
+        variants: c.members
+          .sort((a, b) => b.entry.usages.length - a.entry.usages.length || a.deltaE - b.deltaE)
+          .map((m) => ({
+            hex: m.entry.hex,
+            deltaE: m.deltaE,
+            usageCount: m.entry.usages.length,
+            alphas: alphaHistogram(m.entry.usages),
+            nodes: m.entry.usages.slice(0, maxNodes).map(({ hex: _hex, ...rest }) => rest),
+            truncated: m.entry.usages.length > maxNodes,
+          })),
+      };
+    })
+    .sort((a, b) => b.totalUsage - a.totalUsage || a.canonical.hex.localeCompare(b.canonical.hex));
+
+  return {
+    threshold,
+    distinctColors: entries.size,
+    clusterCount: result.length,
+    variantCount: result.reduce((sum, c) => sum + c.variants.length, 0),
+    clusters: result,
+  };
+}
+
+/** Fetch the file and its FILL styles, then cluster all solid fill/stroke colors (or those below `rootNodeId`). */
+export async function runColorConsolidation(fileKey: string, token: string, options: ConsolidationOptions = {}) {
+  const file = await getFile(fileKey, token);
+  const sources = await loadStyleSources(fileKey, file, token);
+  const usages = collectColorUsages(file.document, options.rootNodeId);
+  return { fileName: file.name, fileKey, ...consolidateColors(usages, fillStyleColors(sources), options) };
+}
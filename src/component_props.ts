@@ -0,0 +1,265 @@
+// Component set → props schema: variant properties (from componentPropertyDefinitions, or parsed from
+// variant names like "Size=Large, State=Hover" when definitions are missing) plus BOOLEAN / TEXT /
+// INSTANCE_SWAP properties, rendered as TypeScript props interfaces. Also checks each set's variant matrix
+// for missing or duplicate combinations and for property names that don't match the definitions.
+
+import { getFile } from "./figma_client.js";
+import { isNodeType, nodeChildren } from "./figma_nodes.js";
+import type { ComponentNode, FigmaNode } from "./figma_types.js";
+import { normalizeNodeId, traverseWithPath } from "./figma_utils.js";
+import { componentNameFor } from "./react_codegen.js";
+
+export type PropertyType = "VARIANT" | "BOOLEAN" | "TEXT" | "INSTANCE_SWAP";
+
+export type PropSchema = {
+  name: string;
+  propName: string;
+  type: PropertyType;
+  values?: string[];
+  defaultValue?: string | boolean;
+};
+
+export type VariantIssue =
+  | { kind: "unparsableVariantName"; variantId: string; variantName: string }
+  | { kind: "unknownProperty"; variantId: string; variantName: string; property: string; didYouMean?: string }
+  | { kind: "missingProperty"; variantId: string; variantName: string; property: string }
+  | { kind: "unknownValue"; variantId: string; variantName: string; property: string; value: string; didYouMean?: string }
+  | { kind: "duplicateCombination"; variantIds: string[]; combination: string }
+  | { kind: "missingCombination"; combination: string };
+
+export type ComponentSetSchema = {
+  nodeId: string;
+  name: string;
+  path: string;
+  interfaceName: string;
+  variantCount: number;
+  properties: PropSchema[];
+  issues: VariantIssue[];
+};
+
+export type ComponentPropsOptions = {
+  rootNodeId?: string;
+  maxMissingCombinations?: number;
+};
+
+// Non-variant property names carry a "#<id>" suffix in componentPropertyDefinitions
+function displayName(propertyKey: string): string {
+  return propertyKey.replace(/#[^#]*$/, "");
+}
+
+function propNameFor(name: string): string {
+  const pascal = componentNameFor(name);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+export function parseVariantName(name: string): Record<string, string> | undefined {
+  const result: Record<string, string> = {};
+  for (const part of name.split(",")) {
+    const eq = part.indexOf("=");
+    if (eq <= 0) return undefined;
+    result[part.slice(0, eq).trim()] = part.slice(eq + 1).trim();
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0] as number;
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j] as number;
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(above + 1, (row[j - 1] as number) + 1, diagonal + cost);
+      diagonal = above;
+    }
+  }
+  return row[b.length] as number;
+}
+
+function closest(value: string, candidates: string[]): string | undefined {
+  let best: { candidate: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const distance = candidate.toLowerCase() === value.toLowerCase() ? 0 : levenshtein(value, candidate);
+    if (distance <= Math.max(2, Math.floor(candidate.length / 4)) && (!best || distance < best.distance)) {
+      best = { candidate, distance };
+    }
+  }
+  return best?.candidate;
+}
+
+function combinationLabel(props: Record<string, string>, order: string[]): string {
+  return order.map((p) => `${p}=${props[p] ?? "?"}`).join(", ");
+}
+
+function* cartesian(axes: Array<{ name: string; values: string[] }>, index = 0, acc: Record<string, string> = {}): Generator<Record<string, string>> {
+  const axis = axes[index];
+  if (!axis) {
+    yield { ...acc };
+    return;
+  }
+  for (const value of axis.values) {
+    acc[axis.name] = value;
+    yield* cartesian(axes, index + 1, acc);
+  }
+}
+
+/** Build the props schema and variant-matrix issues for one COMPONENT_SET node. */
+export function schemaForComponentSet(
+  set: ComponentNode,
+  maxMissingCombinations = 50
+): Omit<ComponentSetSchema, "path" | "interfaceName"> {
+  const variants = nodeChildren(set).filter((c) => c.type === "COMPONENT");
+  const parsed = variants.map((v) => ({ id: v.id, name: v.name, props: parseVariantName(v.name) }));
+  const issues: VariantIssue[] = [];
+
+  const definitions = set.componentPropertyDefinitions ?? {};
+  const properties: PropSchema[] = [];
+  const usedPropNames = new Set<string>();
+  const addProperty = (name: string, type: PropertyType, extra: Partial<PropSchema>) => {
+    let propName = propNameFor(name);
+    let i = 2;
+    while (usedPropNames.has(propName)) propName = `${propNameFor(name)}${i++}`;
+    usedPropNames.add(propName);
+    properties.push({ name, propName, type, ...extra });
+  };
+
+  const hasVariantDefinitions = Object.values(definitions).some((d) => d.type === "VARIANT");
+  if (hasVariantDefinitions) {
+    for (const [key, def] of Object.entries(definitions)) {
+      if (def.type !== "VARIANT") continue;
+      const values = def.variantOptions ?? [];
+      addProperty(key, "VARIANT", { values, ...(def.defaultValue !== undefined ? { defaultValue: def.defaultValue } : {}) });
+    }
+  } else {
+    // Older files / partial payloads: derive variant axes from the variant names, in first-seen order
+    const axes = new Map<string, string[]>();
+    for (const p of parsed) {
+      for (const [name, value] of Object.entries(p.props ?? {})) {
+        const values = axes.get(name) ?? [];
+        if (!values.includes(value)) values.push(value);
+        axes.set(name, values);
+      }
+    }
+    const first = parsed[0]?.props ?? {};
+    for (const [name, values] of axes) {
+      addProperty(name, "VARIANT", { values, ...(first[name] !== undefined ? { defaultValue: first[name] } : {}) });
+    }
+  }
+  for (const [key, def] of Object.entries(definitions)) {
+    if (def.type === "BOOLEAN" || def.type === "TEXT" || def.type === "INSTANCE_SWAP") {
+      addProperty(displayName(key), def.type, def.defaultValue !== undefined ? { defaultValue: def.defaultValue } : {});
+    }
+  }
+
+  const axes = properties.filter((p) => p.type === "VARIANT").map((p) => ({ name: p.name, values: p.values ?? [] }));
+  const axisNames = axes.map((a) => a.name);
+  const seen = new Map<string, string[]>();
+  for (const p of parsed) {
+    if (!p.props) {
+      issues.push({ kind: "unparsableVariantName", variantId: p.id, variantName: p.name });
+      continue;
+    }
+    for (const [property, value] of Object.entries(p.props)) {
+      const axis = axes.find((a) => a.name === property);
+      if (!axis) {
+        const suggestion = closest(property, axisNames);
+        issues.push({ kind: "unknownProperty", variantId: p.id, variantName: p.name, property, ...(suggestion ? { didYouMean: suggestion } : {}) });
+      } else if (!axis.values.includes(value)) {
+        const suggestion = closest(value, axis.values);
+        issues.push({ kind: "unknownValue", variantId: p.id, variantName: p.name, property, value, ...(suggestion ? { didYouMean: suggestion } : {}) });
+      }
+    }
+    for (const axis of axisNames) {
+      if (!(axis in p.props)) issues.push({ kind: "missingProperty", variantId: p.id, variantName: p.name, property: axis });
+    }
+    const label = combinationLabel(p.props, axisNames);
+    seen.set(label, [...(seen.get(label) ?? []), p.id]);
+  }
+  for (const [combination, ids] of seen) {
+    if (ids.length > 1) issues.push({ kind: "duplicateCombination", variantIds: ids, combination });
+  }
+  let missing = 0;
+  if (axes.length > 0 && axes.every((a) => a.values.length > 0)) {
+    // Stop at the limit: past it the walk would cover the whole product of axis values
+    for (const combo of cartesian(axes)) {
+      if (missing >= maxMissingCombinations) break;
+      const label = combinationLabel(combo, axisNames);
+      if (seen.has(label)) continue;
+      missing += 1;
+      issues.push({ kind: "missingCombination", combination: label });
+    }
+  }
+
+  return { nodeId: set.id, name: set.name, variantCount: variants.length, properties, issues };
+}
+
+function tsType(prop: PropSchema): string {
+  if (prop.type === "VARIANT") return (prop.values ?? []).map((v) => JSON.stringify(v)).join(" | ") || "string";
+  if (prop.type === "BOOLEAN") return "boolean";
+  if (prop.type === "INSTANCE_SWAP") return "ReactNode";
+  return "string";
+}
+
+/** Render the schemas as TypeScript props interfaces (every prop optional; Figma defaults in the doc comments). */
+export function renderPropsInterfaces(schemas: ComponentSetSchema[]): string {
+  const lines: string[] = ["// Generated from Figma component sets."];
+  if (schemas.some((s) => s.properties.some((p) => p.type === "INSTANCE_SWAP"))) lines.push('import type { ReactNode } from "react";');
+  lines.push("");
+  for (const schema of schemas) {
+    lines.push(`/** ${schema.name} (${schema.nodeId}) */`, `export interface ${schema.interfaceName} {`);
+    for (const prop of schema.properties) {
+      // INSTANCE_SWAP defaults are component node ids, not useful as prop documentation
+      const showDefault = prop.defaultValue !== undefined && prop.type !== "INSTANCE_SWAP";
+      const doc = [
+        prop.name.toLowerCase() !== prop.propName.toLowerCase() ? `Figma: "${prop.name}"` : "",
+        showDefault ? `Default: ${JSON.stringify(prop.defaultValue)}` : "",
+      ]
+        .filter(Boolean)
+        .join(". ");
+      if (doc) lines.push(`  /** ${doc} */`);
+      lines.push(`  ${prop.propName}?: ${tsType(prop)};`);
+    }
+    lines.push("}", "");
+  }
+  return lines.join("\n");
+}
+
+export function buildComponentProps(document: FigmaNode, options: ComponentPropsOptions = {}) {
+  const wanted = options.rootNodeId ? normalizeNodeId(options.rootNodeId) : undefined;
+  const schemas: ComponentSetSchema[] = [];
+  const usedInterfaces = new Set<string>();
+  let scopeFound = !wanted;
+
+  for (const page of nodeChildren(document)) {
+    traverseWithPath(page, (n: FigmaNode, path: string[]) => {
+      if (!isNodeType(n, "COMPONENT_SET")) return;
+      if (wanted && n.id !== wanted) return;
+      scopeFound = true;
+      const base = `${componentNameFor(n.name)}Props`;
+      let interfaceName = base;
+      let i = 2;
+      while (usedInterfaces.has(interfaceName)) interfaceName = base.replace(/Props$/, `${i++}Props`);
+      usedInterfaces.add(interfaceName);
+      const schema = schemaForComponentSet(n, options.maxMissingCombinations);
+      schemas.push({ ...schema, path: path.join(" / "), interfaceName });
+    });
+  }
+  if (!scopeFound) throw new Error(`Component set ${options.rootNodeId} not found in file`);
+
+  schemas.sort((a, b) => a.interfaceName.localeCompare(b.interfaceName));
+  return {
+    counts: {
+      componentSets: schemas.length,
+      withIssues: schemas.filter((s) => s.issues.length > 0).length,
+    },
+    componentSets: schemas,
+    typescript: renderPropsInterfaces(schemas),
+  };
+}
+
+/** Fetch the file and build props schemas for every component set (or only the one at `rootNodeId`). */
+export async function runComponentProps(fileKey: string, token: string, options: ComponentPropsOptions = {}) {
+  const file = await getFile(fileKey, token);
+  return { fileName: file.name, fileKey, ...buildComponentProps(file.document, options) };
+}
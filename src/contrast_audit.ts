@@ -0,0 +1,218 @@
+// WCAG 2.x contrast audit for TEXT nodes.
+// The effective background is found by compositing, bottom to top, the page background, each ancestor's
+// own fills, and every sibling (or sibling descendant) that sits underneath the text and covers its center.
+// Opacity is multiplied down the tree. Image/gradient layers make the result uncertain ("manual" review).
+
+import { blend, contrastRatio, type Rgb } from "./color_math.js";
+import { getFile } from "./figma_client.js";
+import { isNodeType, nodeBox, nodeChildren, nodeFills } from "./figma_nodes.js";
+import type { FigmaNode } from "./figma_types.js";
+import { normalizeNodeId, rgbaToHex } from "./figma_utils.js";
+
+export type ContrastLevel = "AA" | "AAA";
+
+export type ContrastOptions = {
+  level?: ContrastLevel;
+  includePassing?: boolean;
+  rootNodeId?: string;
+  maxResults?: number;
+};
+
+export type ContrastResult = {
+  nodeId: string;
+  path: string;
+  text: string;
+  fontSize: number;
+  fontWeight: number;
+  largeText: boolean;
+  textColor: string;
+  background: string;
+  ratio: number;
+  required: number;
+  AA: "pass" | "fail";
+  AAA: "pass" | "fail";
+  // Set when an image or gradient sits behind the text, so the ratio is an estimate
+  manualReview?: string;
+};
+
+type Layer = { kind: "solid"; color: Rgb; alpha: number } | { kind: "complex"; paintType: string };
+
+type Point = { x: number; y: number };
+
+const WHITE: Rgb = { r: 1, g: 1, b: 1 };
+
+// WCAG "large text": 18pt (24px) regular or 14pt (~18.66px) bold.
+export function isLargeText(fontSize: number, fontWeight: number): boolean {
+  return fontSize >= 24 || (fontSize >= 18.66 && fontWeight >= 700);
+}
+
+export function requiredRatio(level: ContrastLevel, large: boolean): number {
+  if (level === "AAA") return large ? 4.5 : 7;
+  return large ? 3 : 4.5;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function toHex(color: Rgb): string {
+  return rgbaToHex(color).rgb;
+}
+
+function isVisible(node: FigmaNode): boolean {
+  return node.visible !== false;
+}
+
+function center(node: FigmaNode): Point | undefined {
+  const box = nodeBox(node);
+  if (!box) return undefined;
+  return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+function covers(node: FigmaNode, p: Point): boolean {
+  const box = nodeBox(node);
+  if (!box) return false;
+  return p.x >= box.x && p.x <= box.x + box.width && p.y >= box.y && p.y <= box.y + box.height;
+}
+
+function paintLayers(node: FigmaNode, opacity: number): Layer[] {
+  const layers: Layer[] = [];
+  for (const paint of nodeFills(node)) {
+    if (paint.type === "SOLID" && paint.color) {
+      const alpha = (paint.color.a ?? 1) * (paint.opacity ?? 1) * opacity;
+      if (alpha > 0) layers.push({ kind: "solid", color: paint.color, alpha });
+    } else {
+      layers.push({ kind: "complex", paintType: paint.type });
+    }
+  }
+  return layers;
+}
+
+// Layers of a sibling subtree under point `p`, bottom to top (pre-order = paint order).
+function subtreeLayersAt(node: FigmaNode, p: Point, opacity: number, out: Layer[]): void {
+  if (!isVisible(node)) return;
+  const nodeOpacity = opacity * (node.opacity ?? 1);
+  if (node.type !== "TEXT" && covers(node, p)) out.push(...paintLayers(node, nodeOpacity));
+  for (const child of nodeChildren(node)) subtreeLayersAt(child, p, nodeOpacity, out);
+}
+
+/** Resolve the opaque background behind `text`, given its ancestors from page (first) to parent (last). */
+export function resolveBackground(
+  text: FigmaNode,
+  ancestors: FigmaNode[],
+  pageBackground: Rgb = WHITE
+): { color: Rgb; uncertain?: string } {
+  const p = center(text);
+  const layers: Layer[] = [];
+  let opacity = 1;
+  const chain = [...ancestors, text];
+  for (let i = 1; i < chain.length; i++) {
+    const parent = chain[i - 1] as FigmaNode;
+    const child = chain[i];
+    if (i > 1) {
+      opacity *= parent.opacity ?? 1;
+      layers.push(...paintLayers(parent, opacity));
+    }
+    if (!p) continue;
+    for (const sibling of nodeChildren(parent)) {
+      if (sibling === child) break;
+      subtreeLayersAt(sibling, p, opacity, layers);
+    }
+  }
+
+  let color = pageBackground;
+  let uncertain: string | undefined;
+  for (const layer of layers) {
+    if (layer.kind === "complex") {
+      uncertain = `${layer.paintType.toLowerCase()} fill behind text`;
+      continue;
+    }
+    if (layer.alpha >= 1) uncertain = undefined;
+    color = blend(layer.color, Math.min(1, layer.alpha), color);
+  }
+  return uncertain ? { color, uncertain } : { color };
+}
+
+function textColor(text: FigmaNode, ancestorOpacity: number): { color: Rgb; alpha: number } | undefined {
+  const fills = nodeFills(text);
+  const paint = fills[fills.length - 1];
+  if (paint?.type !== "SOLID" || !paint.color) return undefined;
+  const alpha = (paint.color.a ?? 1) * (paint.opacity ?? 1) * (text.opacity ?? 1) * ancestorOpacity;
+  return { color: paint.color, alpha };
+}
+
+export function auditContrast(document: FigmaNode, options: ContrastOptions = {}) {
+  const level = options.level ?? "AA";
+  const maxResults = options.maxResults ?? 500;
+  const wanted = options.rootNodeId ? normalizeNodeId(options.rootNodeId) : undefined;
+
+  const results: ContrastResult[] = [];
+  let truncated = false;
+  const summary = { textNodes: 0, checked: 0, passAA: 0, failAA: 0, passAAA: 0, failAAA: 0, manualReview: 0, skipped: 0 };
+  let scopeFound = !wanted;
+
+  const walk = (node: FigmaNode, ancestors: FigmaNode[], inScope: boolean) => {
+    if (!isVisible(node)) return;
+    const scoped = inScope || node.id === wanted;
+    if (node.id === wanted) scopeFound = true;
+    if (isNodeType(node, "TEXT") && scoped) {
+      summary.textNodes += 1;
+      const ancestorOpacity = ancestors.slice(1).reduce((acc, a) => acc * (a.opacity ?? 1), 1);
+      const fg = textColor(node, ancestorOpacity);
+      if (!fg) {
+        summary.skipped += 1;
+        return;
+      }
+      const page = ancestors[0];
+      const pageBackground: Rgb = (isNodeType(page, "CANVAS") ? page.backgroundColor : undefined) ?? WHITE;
+      const bg = resolveBackground(node, ancestors, pageBackground);
+      const fgColor = blend(fg.color, Math.min(1, fg.alpha), bg.color);
+      const ratio = contrastRatio(fgColor, bg.color);
+      const fontSize = node.style?.fontSize ?? 0;
+      const fontWeight = node.style?.fontWeight ?? 400;
+      const large = isLargeText(fontSize, fontWeight);
+      const aa = ratio >= requiredRatio("AA", large);
+      const aaa = ratio >= requiredRatio("AAA", large);
+      summary.checked += 1;
+      summary[aa ? "passAA" : "failAA"] += 1;
+      summary[aaa ? "passAAA" : "failAAA"] += 1;
+      if (bg.uncertain) summary.manualReview += 1;
+      const passes = level === "AA" ? aa : aaa;
+      if (!passes || options.includePassing) {
+        if (results.length >= maxResults) {
+          truncated = true;
+          return;
+        }
+        results.push({
+          nodeId: node.id,
+          path: [...ancestors, node].map((n) => n.name || n.id).join(" / "),
+          text: node.characters.slice(0, 60),
+          fontSize,
+          fontWeight,
+          largeText: large,
+          textColor: toHex(fgColor),
+          background: toHex(bg.color),
+          ratio: round2(ratio),
+          required: requiredRatio(level, large),
+          AA: aa ? "pass" : "fail",
+          AAA: aaa ? "pass" : "fail",
+          ...(bg.uncertain ? { manualReview: bg.uncertain } : {}),
+        });
+      }
+      return;
+    }
+    for (const child of nodeChildren(node)) walk(child, [...ancestors, node], scoped);
+  };
+
+  for (const page of nodeChildren(document)) walk(page, [], !wanted);
+  if (!scopeFound) throw new Error(`Node ${options.rootNodeId} not found in file`);
+
+  results.sort((a, b) => a.ratio - b.ratio);
+  return { level, summary, results, truncated };
+}
+
+/** Fetch the file and check every TEXT node (or those below `rootNodeId`). */
+export async function runContrastAudit(fileKey: string, token: string, options: ContrastOptions = {}) {
+  const file = await getFile(fileKey, token);
+  return { fileName: file.name, fileKey, ...auditContrast(file.document, options) };
+}
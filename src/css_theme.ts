@@ -0,0 +1,256 @@
+// CSS custom properties and a Tailwind `theme.extend` block generated from the file's styles.
+// Colors, typography and shadows come from the DTCG token tree (design_tokens.ts); corner radii
+// and, optionally, unstyled solid colors are collected from the document itself.
+// Output is sorted and contains no timestamps so it can be diffed in PRs.
+
+import {
+  buildDesignTokens,
+  isDesignToken,
+  loadStyleSources,
+  type DesignToken,
+  type GradientStopValue,
+  type ShadowValue,
+  type TokenGroup,
+  type TypographyValue,
+} from "./design_tokens.js";
+import { getFile } from "./figma_client.js";
+import { solidFills } from "./figma_nodes.js";
+import type { FigmaNode } from "./figma_types.js";
+import { rgbaToHex, traverse } from "./figma_utils.js";
+
+type ThemeOptions = { includeUnstyledColors?: boolean };
+
+type Theme = {
+  vars: Map<string, string>;
+  colors: Record<string, unknown>;
+  backgroundImage: Record<string, string>;
+  fontFamily: Record<string, string[]>;
+  fontSize: Record<string, [string, Record<string, string>]>;
+  borderRadius: Record<string, string>;
+  boxShadow: Record<string, string>;
+  blur: Record<string, string>;
+};
+
+function slug(segment: string): string {
+  return segment
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// "Shadow/md" under the shadow prefix should become --shadow-md, not --shadow-shadow-md.
+function dropPrefix(parts: string[], prefix: string): string[] {
+  const first = parts[0];
+  return parts.length > 1 && (first === prefix || first === `${prefix}s`) ? parts.slice(1) : parts;
+}
+
+function flattenTokens(group: TokenGroup, path: string[] = []): Array<{ path: string[]; token: DesignToken }> {
+  const out: Array<{ path: string[]; token: DesignToken }> = [];
+  for (const key of Object.keys(group).sort()) {
+    const value = group[key];
+    const nextPath = key === "DEFAULT" ? path : [...path, key];
+    if (isDesignToken(value)) out.push({ path: nextPath, token: value });
+    else if (value) out.push(...flattenTokens(value, nextPath));
+  }
+  return out;
+}
+
+function uniqueName(taken: Map<string, string>, name: string): string {
+  if (!taken.has(name)) return name;
+  let i = 2;
+  while (taken.has(`${name}-${i}`)) i++;
+  return `${name}-${i}`;
+}
+
+function setNested(target: Record<string, unknown>, path: string[], value: string): void {
+  let cur = target;
+  for (let i = 0; i < path.length - 1; i++) {
+    const key = path[i] as string;
+    const existing = cur[key];
+    if (typeof existing === "string") cur[key] = { DEFAULT: existing };
+    else if (!existing) cur[key] = {};
+    cur = cur[key] as Record<string, unknown>;
+  }
+  const leaf = path[path.length - 1] as string;
+  if (typeof cur[leaf] === "object" && cur[leaf] !== null) (cur[leaf] as Record<string, unknown>).DEFAULT = value;
+  else cur[leaf] = value;
+}
+
+function genericFamily(family: string): string {
+  const lower = family.toLowerCase();
+  if (lower.includes("mono") || lower.includes("code")) return "monospace";
+  if (lower.includes("serif") && !lower.includes("sans")) return "serif";
+  return "sans-serif";
+}
+
+function shadowCss(value: ShadowValue | ShadowValue[]): string {
+  const items = Array.isArray(value) ? value : [value];
+  return items.map((s) => `${s.inset ? "inset " : ""}${s.offsetX} ${s.offsetY} ${s.blur} ${s.spread} ${s.color}`).join(", ");
+}
+
+function gradientCss(stops: GradientStopValue[], gradientType: string | undefined): string {
+  const list = stops.map((s) => `${s.color} ${Math.round(s.position * 100)}%`).join(", ");
+  if (gradientType === "GRADIENT_RADIAL" || gradientType === "GRADIENT_DIAMOND") return `radial-gradient(${list})`;
+  if (gradientType === "GRADIENT_ANGULAR") return `conic-gradient(${list})`;
+  return `linear-gradient(${list})`;
+}
+
+function radiusKey(n: number): string {
+  return String(Math.round(n * 100) / 100).replace(".", "-");
+}
+
+function collectRadii(document: FigmaNode): number[] {
+  const radii = new Set<number>();
+  traverse(document, (n: FigmaNode) => {
+    for (const r of [n.cornerRadius ?? 0, ...(n.rectangleCornerRadii ?? [])]) {
+      if (r > 0) radii.add(Math.round(r * 100) / 100);
+    }
+  });
+  return Array.from(radii).sort((a, b) => a - b);
+}
+
+function collectSolidFillColors(document: FigmaNode): Map<string, number> {
+  const colorCountMap = new Map<string, number>();
+  traverse(document, (n: FigmaNode) => {
+    for (const paint of solidFills(n)) {
+      const { rgba } = rgbaToHex(paint.color, paint.opacity ?? n.opacity ?? 1);
+      colorCountMap.set(rgba, (colorCountMap.get(rgba) ?? 0) + 1);
+    }
+  });
+  return colorCountMap;
+}
+
+export function buildTheme(tokens: TokenGroup, document: FigmaNode, options: ThemeOptions = {}): Theme {
+  const theme: Theme = {
+    vars: new Map(),
+    colors: {},
+    backgroundImage: {},
+    fontFamily: {},
+    fontSize: {},
+    borderRadius: {},
+    boxShadow: {},
+    blur: {},
+  };
+  const addVar = (name: string, value: string): string => {
+    const unique = uniqueName(theme.vars, name);
+    theme.vars.set(unique, value);
+    return unique;
+  };
+
+  const styledColors = new Set<string>();
+  for (const { path, token } of flattenTokens((tokens.color ?? {}) as TokenGroup)) {
+    const parts = dropPrefix(path.map(slug).filter(Boolean), "color");
+    if (parts.length === 0) continue;
+    if (token.$type === "color" && typeof token.$value === "string") {
+      styledColors.add(token.$value);
+      addVar(`--color-${parts.join("-")}`, token.$value);
+      setNested(theme.colors, parts, token.$value);
+    } else if (token.$type === "gradient" && Array.isArray(token.$value)) {
+      const figma = (token.$extensions?.["com.figma"] ?? {}) as Record<string, string>;
+      const css = gradientCss(token.$value as GradientStopValue[], figma.gradientType);
+      addVar(`--gradient-${parts.join("-")}`, css);
+      theme.backgroundImage[parts.join("-")] = css;
+    }
+  }
+
+  if (options.includeUnstyledColors) {
+    const usage = collectSolidFillColors(document);
+    for (const hex of Array.from(usage.keys()).sort()) {
+      if (styledColors.has(hex)) continue;
+      const key = hex.slice(1).toLowerCase();
+      addVar(`--color-unstyled-${key}`, hex);
+      setNested(theme.colors, ["unstyled", key], hex);
+    }
+  }
+
+  const families = new Map<string, string>();
+  for (const { path, token } of flattenTokens((tokens.typography ?? {}) as TokenGroup)) {
+    const v = token.$value as TypographyValue | undefined;
+    const name = path.map(slug).filter(Boolean).join("-");
+    if (!name || !v) continue;
+    if (typeof v.fontFamily === "string" && !families.has(v.fontFamily)) {
+      const familyKey = slug(v.fontFamily);
+      families.set(v.fontFamily, familyKey);
+      addVar(`--font-family-${familyKey}`, `"${v.fontFamily}", ${genericFamily(v.fontFamily)}`);
+      theme.fontFamily[familyKey] = [v.fontFamily, genericFamily(v.fontFamily)];
+    }
+    addVar(`--font-size-${name}`, String(v.fontSize));
+    addVar(`--font-weight-${name}`, String(v.fontWeight));
+    const extras: Record<string, string> = { fontWeight: String(v.fontWeight) };
+    if (v.lineHeight !== undefined) {
+      addVar(`--line-height-${name}`, String(v.lineHeight));
+      extras.lineHeight = String(v.lineHeight);
+    }
+    if (v.letterSpacing !== undefined && v.letterSpacing !== "0px") {
+      addVar(`--letter-spacing-${name}`, String(v.letterSpacing));
+      extras.letterSpacing = String(v.letterSpacing);
+    }
+    theme.fontSize[name] = [String(v.fontSize), extras];
+  }
+
+  for (const r of collectRadii(document)) {
+    addVar(`--radius-${radiusKey(r)}`, `${r}px`);
+    theme.borderRadius[radiusKey(r)] = `${r}px`;
+  }
+
+  for (const { path, token } of flattenTokens((tokens.effect ?? {}) as TokenGroup)) {
+    const parts = path.map(slug).filter(Boolean);
+    const name = dropPrefix(parts, token.$type === "shadow" ? "shadow" : "blur").join("-");
+    if (!name) continue;
+    if (token.$type === "shadow") {
+      const css = shadowCss(token.$value as ShadowValue | ShadowValue[]);
+      addVar(`--shadow-${name}`, css);
+      theme.boxShadow[name] = css;
+    } else if (token.$type === "dimension" && typeof token.$value === "string") {
+      addVar(`--blur-${name}`, token.$value);
+      theme.blur[name] = token.$value;
+    }
+  }
+  return theme;
+}
+
+export function renderCss(theme: Theme, header: string): string {
+  const lines = [`/* ${header} */`, ":root {"];
+  for (const [name, value] of theme.vars) lines.push(`  ${name}: ${value};`);
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+export function renderTailwindConfig(theme: Theme, header: string): string {
+  const extend: Record<string, unknown> = {};
+  const sections: Array<[string, Record<string, unknown>]> = [
+    ["colors", theme.colors],
+    ["backgroundImage", theme.backgroundImage],
+    ["fontFamily", theme.fontFamily],
+    ["fontSize", theme.fontSize],
+    ["borderRadius", theme.borderRadius],
+    ["boxShadow", theme.boxShadow],
+    ["blur", theme.blur],
+  ];
+  for (const [key, value] of sections) {
+    if (Object.keys(value).length > 0) extend[key] = value;
+  }
+  const body = JSON.stringify({ theme: { extend } }, null, 2);
+  // An ES module like this package; Tailwind loads ESM configs whatever the project's module type
+  return `/** ${header} */\n/** @type {import('tailwindcss').Config} */\nexport default ${body};\n`;
+}
+
+/** Fetch the file and its styles and render both artifacts. */
+export async function generateCssTheme(
+  fileKey: string,
+  token: string,
+  options: ThemeOptions = {}
+): Promise<{ fileName: string; css: string; tailwind: string; variableCount: number }> {
+  const file = await getFile(fileKey, token);
+  const sources = await loadStyleSources(fileKey, file, token);
+  const { tokens } = buildDesignTokens(sources);
+  const theme = buildTheme(tokens, file.document, options);
+  const fileName = file.name;
+  const header = `Generated from Figma file "${fileName}" (${fileKey}). Do not edit by hand.`;
+  return {
+    fileName,
+    css: renderCss(theme, header),
+    tailwind: renderTailwindConfig(theme, header),
+    variableCount: theme.vars.size,
+  };
+}
@@ -0,0 +1,323 @@
+// Design tokens in W3C Design Tokens Community Group (DTCG) format, built from the file's
+// FILL, TEXT, EFFECT and GRID styles. Values are read from each style's source node
+// (fetched via files/<key>/nodes) with a fallback to the first document node that uses the style.
+
+import { getFile, getFileNodes } from "./figma_client.js";
+import { isNodeType, nodeFills } from "./figma_nodes.js";
+import type { FigmaColor, FigmaFile, FigmaNode, Paint } from "./figma_types.js";
+import { rgbaToHex, traverse } from "./figma_utils.js";
+
+export type DesignToken = {
+  $type: string;
+  $value: unknown;
+  $description?: string;
+  $extensions?: Record<string, unknown>;
+};
+
+export type TokenGroup = { [key: string]: TokenGroup | DesignToken };
+
+// $value shapes of the composite token types this module emits
+export type ShadowValue = { color: string; offsetX: string; offsetY: string; blur: string; spread: string; inset?: true };
+export type GradientStopValue = { color: string; position: number };
+export type TypographyValue = {
+  fontFamily?: string | undefined;
+  fontWeight: number;
+  fontSize: string;
+  lineHeight?: number;
+  letterSpacing: string;
+};
+
+export type StyleSource = {
+  styleId: string;
+  name: string;
+  styleType: string;
+  description?: string;
+  key?: string;
+  node?: FigmaNode;
+};
+
+const STYLE_TYPES = ["FILL", "TEXT", "EFFECT", "GRID"] as const;
+const GROUP_BY_STYLE_TYPE: Record<string, string> = {
+  FILL: "color",
+  TEXT: "typography",
+  EFFECT: "effect",
+  GRID: "grid",
+};
+const STYLE_KEY_BY_TYPE: Record<string, string[]> = {
+  FILL: ["fill", "fills"],
+  TEXT: ["text"],
+  EFFECT: ["effect"],
+  GRID: ["grid"],
+};
+const NODES_PER_REQUEST = 100;
+
+function round(n: number, digits: number = 3): number {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+function px(n: number): string {
+  return `${round(n)}px`;
+}
+
+export function isDesignToken(value: TokenGroup | DesignToken | undefined): value is DesignToken {
+  return !!value && typeof value === "object" && "$value" in value;
+}
+
+// DTCG names must not contain `.`, `{` or `}` and must not start with `$`.
+export function tokenPathFromStyleName(name: string): string[] {
+  return name
+    .split("/")
+    .map((seg) => seg.trim().replace(/[.{}]/g, "-").replace(/^\$+/, ""))
+    .filter((seg) => seg.length > 0);
+}
+
+// A style named "Primary" next to "Primary/500" would make one path both a token and a group;
+// the token then moves into the group as "DEFAULT".
+function setToken(root: TokenGroup, path: string[], token: DesignToken): void {
+  let cur: TokenGroup = root;
+  for (let i = 0; i < path.length - 1; i++) {
+    const seg = path[i] as string;
+    const existing = cur[seg];
+    if (isDesignToken(existing)) {
+      cur[seg] = { DEFAULT: existing };
+    } else if (!existing) {
+      cur[seg] = {};
+    }
+    cur = cur[seg] as TokenGroup;
+  }
+  const leaf = path[path.length - 1] as string;
+  const existing = cur[leaf];
+  if (existing && !isDesignToken(existing)) {
+    existing.DEFAULT = token;
+  } else if (isDesignToken(existing)) {
+    let i = 2;
+    while (cur[`${leaf}-${i}`]) i++;
+    cur[`${leaf}-${i}`] = token;
+  } else {
+    cur[leaf] = token;
+  }
+}
+
+function colorValue(color: FigmaColor | undefined, opacity: number = 1): string {
+  return rgbaToHex(color, (color?.a ?? 1) * opacity).rgba;
+}
+
+function topmostVisiblePaint(node: FigmaNode | undefined): Paint | undefined {
+  const visible = nodeFills(node);
+  return visible[visible.length - 1];
+}
+
+function fillToken(node: FigmaNode | undefined): DesignToken | undefined {
+  const paint = topmostVisiblePaint(node);
+  if (!paint) return undefined;
+  const opacity = paint.opacity ?? 1;
+  if (paint.type === "SOLID" && paint.color) {
+    return { $type: "color", $value: colorValue(paint.color, opacity) };
+  }
+  if (paint.type.startsWith("GRADIENT_") && paint.gradientStops) {
+    return {
+      $type: "gradient",
+      $value: paint.gradientStops.map((stop): GradientStopValue => ({
+        color: colorValue(stop.color, opacity),
+        position: round(stop.position),
+      })),
+      $extensions: { "com.figma": { gradientType: paint.type } },
+    };
+  }
+  return undefined;
+}
+
+function textToken(node: FigmaNode | undefined): DesignToken | undefined {
+  const style = isNodeType(node, "TEXT") ? node.style : undefined;
+  if (!style || style.fontSize === undefined) return undefined;
+  const value: TypographyValue = {
+    fontFamily: style.fontFamily,
+    fontWeight: style.fontWeight ?? 400,
+    fontSize: px(style.fontSize),
+    letterSpacing: px(style.letterSpacing ?? 0),
+  };
+  if (style.lineHeightPx !== undefined && style.lineHeightUnit !== "INTRINSIC_%") {
+    value.lineHeight = round(style.lineHeightPx / style.fontSize);
+  }
+  const figmaExtras: Record<string, unknown> = {};
+  if (style.italic) figmaExtras.italic = true;
+  if (style.textCase && style.textCase !== "ORIGINAL") figmaExtras.textCase = style.textCase;
+  if (style.textDecoration && style.textDecoration !== "NONE") figmaExtras.textDecoration = style.textDecoration;
+  const token: DesignToken = { $type: "typography", $value: value };
+  if (Object.keys(figmaExtras).length > 0) token.$extensions = { "com.figma": figmaExtras };
+  return token;
+}
+
+function effectToken(node: FigmaNode | undefined): DesignToken | undefined {
+  const effects = (node?.effects ?? []).filter((e) => e.visible !== false);
+  const shadows = effects
+    .filter((e) => e.type === "DROP_SHADOW" || e.type === "INNER_SHADOW")
+    .map((e): ShadowValue => ({
+      color: colorValue(e.color),
+      offsetX: px(e.offset?.x ?? 0),
+      offsetY: px(e.offset?.y ?? 0),
+      blur: px(e.radius ?? 0),
+      spread: px(e.spread ?? 0),
+      ...(e.type === "INNER_SHADOW" ? { inset: true } : {}),
+    }));
+  if (shadows.length > 0) {
+    return { $type: "shadow", $value: shadows.length === 1 ? shadows[0] : shadows };
+  }
+  const blur = effects.find((e) => e.type === "LAYER_BLUR" || e.type === "BACKGROUND_BLUR");
+  if (blur) {
+    return {
+      $type: "dimension",
+      $value: px(blur.radius ?? 0),
+      $extensions: { "com.figma": { effectType: blur.type } },
+    };
+  }
+  return undefined;
+}
+
+// DTCG has no grid type, so a grid style becomes a group of number/dimension tokens per layout grid.
+function gridTokens(node: FigmaNode | undefined): TokenGroup | undefined {
+  const grids = (node?.layoutGrids ?? []).filter((g) => g.visible !== false);
+  if (grids.length === 0) return undefined;
+  const group: TokenGroup = {};
+  const used = new Map<string, number>();
+  for (const grid of grids) {
+    const base = grid.pattern.toLowerCase();
+    const n = (used.get(base) ?? 0) + 1;
+    used.set(base, n);
+    const entry: TokenGroup = {};
+    if (grid.count !== undefined && grid.count > 0) entry.count = { $type: "number", $value: grid.count };
+    if (grid.sectionSize !== undefined && (grid.pattern === "GRID" || grid.alignment !== "STRETCH")) {
+      entry.size = { $type: "dimension", $value: px(grid.sectionSize) };
+    }
+    if (grid.gutterSize !== undefined) entry.gutter = { $type: "dimension", $value: px(grid.gutterSize) };
+    if (grid.offset !== undefined) entry.offset = { $type: "dimension", $value: px(grid.offset) };
+    group[n === 1 ? base : `${base}-${n}`] = entry;
+  }
+  return grids.length === 1 ? (Object.values(group)[0] as TokenGroup) : group;
+}
+
+/** Collect FILL/TEXT/EFFECT/GRID styles with their source nodes (style definition node or first usage). */
+export async function loadStyleSources(fileKey: string, file: FigmaFile, token: string): Promise<StyleSource[]> {
+  const sources: StyleSource[] = Object.entries(file.styles)
+    .filter(([, s]) => (STYLE_TYPES as readonly string[]).includes(s.styleType))
+    .map(([styleId, s]) => ({
+      styleId,
+      name: s.name || styleId,
+      styleType: s.styleType,
+      ...(s.description ? { description: s.description } : {}),
+      ...(s.key ? { key: s.key } : {}),
+    }));
+
+  const ids = sources.map((s) => s.styleId);
+  const definitionNodes = new Map<string, FigmaNode>();
+  for (let i = 0; i < ids.length; i += NODES_PER_REQUEST) {
+    const res = await getFileNodes(fileKey, token, ids.slice(i, i + NODES_PER_REQUEST));
+    for (const [id, entry] of Object.entries(res.nodes)) {
+      if (entry?.document) definitionNodes.set(id, entry.document);
+    }
+  }
+
+  const firstUsage = new Map<string, FigmaNode>();
+  traverse(file.document, (n: FigmaNode) => {
+    for (const styleId of Object.values(n.styles ?? {})) {
+      if (!firstUsage.has(styleId)) firstUsage.set(styleId, n);
+    }
+  });
+
+  for (const source of sources) {
+    const node = definitionNodes.get(source.styleId) ?? firstUsage.get(source.styleId);
+    if (node) source.node = node;
+  }
+  return sources;
+}
+
+/** Resolve a style's source node to the node that actually carries its value (e.g. a TEXT child). */
+export function styleValueNode(source: StyleSource): FigmaNode | undefined {
+  const keys = STYLE_KEY_BY_TYPE[source.styleType] ?? [];
+  let found: FigmaNode | undefined;
+  traverse(source.node, (n: FigmaNode) => {
+    if (found) return;
+    const refs = n.styles ?? {};
+    if (keys.some((k) => refs[k] === source.styleId)) found = n;
+  });
+  return found ?? source.node;
+}
+
+/** Solid colors of FILL styles (topmost visible paint), for analyses that compare raw fills to styles. */
+export function fillStyleColors(sources: StyleSource[]): Array<{ styleId: string; name: string; hex: string; alpha: number }> {
+  const out: Array<{ styleId: string; name: string; hex: string; alpha: number }> = [];
+  for (const source of sources) {
+    if (source.styleType !== "FILL" || !source.node) continue;
+    const paint = topmostVisiblePaint(styleValueNode(source));
+    if (paint?.type !== "SOLID" || !paint.color) continue;
+    const alpha = round((paint.color.a ?? 1) * (paint.opacity ?? 1), 2);
+    out.push({ styleId: source.styleId, name: source.name, hex: rgbaToHex(paint.color).rgb, alpha });
+  }
+  return out;
+}
+
+export function buildDesignTokens(sources: StyleSource[]): {
+  tokens: TokenGroup;
+  counts: Record<string, number>;
+  unresolved: Array<{ styleId: string; name: string; styleType: string; reason: string }>;
+} {
+  const tokens: TokenGroup = {};
+  const counts: Record<string, number> = { FILL: 0, TEXT: 0, EFFECT: 0, GRID: 0 };
+  const unresolved: Array<{ styleId: string; name: string; styleType: string; reason: string }> = [];
+  const sorted = [...sources].sort((a, b) => a.styleType.localeCompare(b.styleType) || a.name.localeCompare(b.name));
+
+  for (const source of sorted) {
+    const group = GROUP_BY_STYLE_TYPE[source.styleType] as string;
+    const path = [group, ...tokenPathFromStyleName(source.name)];
+    if (!source.node) {
+      unresolved.push({ ...pick(source), reason: "style source node not found" });
+      continue;
+    }
+    const node = styleValueNode(source);
+    const figmaMeta: Record<string, unknown> = { styleId: source.styleId };
+    if (source.key) figmaMeta.styleKey = source.key;
+
+    if (source.styleType === "GRID") {
+      const grid = gridTokens(node);
+      if (!grid) {
+        unresolved.push({ ...pick(source), reason: "no visible layout grids" });
+        continue;
+      }
+      setGroup(tokens, path, grid);
+      counts.GRID = (counts.GRID ?? 0) + 1;
+      continue;
+    }
+
+    const token =
+      source.styleType === "FILL" ? fillToken(node) : source.styleType === "TEXT" ? textToken(node) : effectToken(node);
+    if (!token) {
+      unresolved.push({ ...pick(source), reason: "unsupported or empty style value (e.g. image fill)" });
+      continue;
+    }
+    if (source.description) token.$description = source.description;
+    token.$extensions = { ...(token.$extensions ?? {}) };
+    token.$extensions["com.figma"] = { ...((token.$extensions["com.figma"] as object) ?? {}), ...figmaMeta };
+    setToken(tokens, path, token);
+    counts[source.styleType] = (counts[source.styleType] ?? 0) + 1;
+  }
+  return { tokens, counts, unresolved };
+}
+
+function pick(source: StyleSource): { styleId: string; name: string; styleType: string } {
+  return { styleId: source.styleId, name: source.name, styleType: source.styleType };
+}
+
+function setGroup(root: TokenGroup, path: string[], group: TokenGroup): void {
+  for (const [key, value] of Object.entries(group)) {
+    if (isDesignToken(value)) setToken(root, [...path, key], value);
+    else setGroup(root, [...path, key], value);
+  }
+}
+
+/** Fetch the file and its style nodes, then build the DTCG token tree. */
+export async function exportDesignTokens(fileKey: string, token: string): Promise<ReturnType<typeof buildDesignTokens> & { fileName: string }> {
+  const file = await getFile(fileKey, token);
+  const sources = await loadStyleSources(fileKey, file, token);
+  return { fileName: file.name, ...buildDesignTokens(sources) };
+}
@@ -0,0 +1,214 @@
+// On-disk cache for Figma file/node responses.
+// Entries are stored per file key and are reused as long as the file's `version` has not changed.
+// A cheap `files/<key>?depth=1` probe is used to read the current version before serving a cached copy;
+// without a cached copy there is nothing to validate, so the request goes out directly.
+//
+// Env:
+//   FIGMA_CACHE=off                 disable the cache entirely
+//   FIGMA_CACHE_DIR=<dir>           cache location (default: ~/.cache/customfigmamcp)
+//   FIGMA_CACHE_CHECK_TTL_MS=<ms>   how long a version probe is trusted in-process (default: 30000)
+
+import { createHash, randomBytes } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+type CacheMeta = {
+  endpoint: string;
+  fileKey: string;
+  version?: string;
+  lastModified?: string;
+  cachedAt: string;
+  bytes: number;
+};
+
+type VersionInfo = { version?: string; lastModified?: string };
+
+type Fetcher = (endpoint: string) => Promise<unknown>;
+
+const versionProbes = new Map<string, { checkedAt: number; info: VersionInfo }>();
+
+export function isCacheEnabled(): boolean {
+  const flag = (process.env.FIGMA_CACHE || "").toLowerCase();
+  return flag !== "off" && flag !== "0" && flag !== "false";
+}
+
+export function getCacheDir(): string {
+  return process.env.FIGMA_CACHE_DIR || join(homedir(), ".cache", "customfigmamcp");
+}
+
+function getCheckTtlMs(): number {
+  const raw = Number(process.env.FIGMA_CACHE_CHECK_TTL_MS);
+  return Number.isFinite(raw) && raw >= 0 ? raw : 30_000;
+}
+
+// Only file and node reads are cached. Image URLs expire and comments change independently of the version.
+function cacheableFileKey(endpoint: string): string | undefined {
+  const match = endpoint.match(/^files\/([^/?]+)(\/nodes)?(\?|$)/);
+  return match ? decodeURIComponent(match[1] ?? "") || undefined : undefined;
+}
+
+function isPinnedVersion(endpoint: string): boolean {
+  return /[?&]version=/.test(endpoint);
+}
+
+function entryPaths(fileKey: string, endpoint: string): { dir: string; meta: string; data: string } {
+  const hash = createHash("sha1").update(endpoint).digest("hex");
+  const dir = join(getCacheDir(), encodeURIComponent(fileKey));
+  return { dir, meta: join(dir, `${hash}.meta.json`), data: join(dir, `${hash}.json`) };
+}
+
+async function readJson<T>(path: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+// The random part keeps two concurrent writes of the same entry (same process or not) off each other's temp file
+async function writeFileAtomic(path: string, content: string): Promise<void> {
+  const tmp = `${path}.${process.pid}.${randomBytes(6).toString("hex")}.tmp`;
+  await writeFile(tmp, content, "utf8");
+  await rename(tmp, path);
+}
+
+function probeEndpoint(fileKey: string): string {
+  return `files/${encodeURIComponent(fileKey)}?depth=1`;
+}
+
+function versionInfoOf(data: unknown): VersionInfo {
+  const info: VersionInfo = {};
+  if (typeof data !== "object" || data === null) return info;
+  const { version, lastModified } = data as Record<string, unknown>;
+  if (typeof version === "string") info.version = version;
+  if (typeof lastModified === "string") info.lastModified = lastModified;
+  return info;
+}
+
+// `head` is the probe response when it was fetched just now (not served from the in-process TTL)
+async function probeVersion(fileKey: string, fetcher: Fetcher): Promise<{ info: VersionInfo; head?: unknown }> {
+  const known = versionProbes.get(fileKey);
+  if (known && Date.now() - known.checkedAt < getCheckTtlMs()) return { info: known.info };
+  const head = await fetcher(probeEndpoint(fileKey));
+  const info = versionInfoOf(head);
+  versionProbes.set(fileKey, { checkedAt: Date.now(), info });
+  return { info, head };
+}
+
+/**
+ * Serve a GET `files/<key>` or `files/<key>/nodes` request from disk when the cached copy
+ * matches the file's current version; otherwise call `fetcher` and store the result.
+ * Any other endpoint is passed straight to `fetcher`.
+ */
+export async function cachedFigmaGet<T>(endpoint: string, fetcher: Fetcher): Promise<T> {
+  const fileKey = cacheableFileKey(endpoint);
+  if (!isCacheEnabled() || !fileKey) return (await fetcher(endpoint)) as T;
+
+  const paths = entryPaths(fileKey, endpoint);
+  const meta = await readJson<CacheMeta>(paths.meta);
+
+  let current: VersionInfo = {};
+  let probed: unknown;
+  if (isPinnedVersion(endpoint)) {
+    if (meta) {
+      const cached = await readJson<T>(paths.data);
+      if (cached !== undefined) return cached;
+    }
+  } else if (meta) {
+    const probe = await probeVersion(fileKey, fetcher);
+    current = probe.info;
+    if (current.version && meta.version === current.version) {
+      const cached = await readJson<T>(paths.data);
+      if (cached !== undefined) return cached;
+    }
+    // A depth=1 request is the probe itself, so its response is the answer
+    if (endpoint === probeEndpoint(fileKey)) probed = probe.head;
+  }
+
+  const data = probed ?? (await fetcher(endpoint));
+  const body = JSON.stringify(data);
+  const fetched = versionInfoOf(data);
+  const version = fetched.version ?? current.version;
+  const lastModified = fetched.lastModified ?? current.lastModified;
+  // An unpinned response carries the current version, so the next request within the TTL needs no probe
+  if (!isPinnedVersion(endpoint) && fetched.version) versionProbes.set(fileKey, { checkedAt: Date.now(), info: fetched });
+  const nextMeta: CacheMeta = {
+    endpoint,
+    fileKey,
+    ...(version ? { version } : {}),
+    ...(lastModified ? { lastModified } : {}),
+    cachedAt: new Date().toISOString(),
+    bytes: Buffer.byteLength(body),
+  };
+  try {
+    await mkdir(paths.dir, { recursive: true });
+    await writeFileAtomic(paths.data, body);
+    await writeFileAtomic(paths.meta, JSON.stringify(nextMeta, null, 2));
+  } catch {
+    // A read-only or full disk must not break the request itself.
+  }
+  return data as T;
+}
+
+async function listFileKeys(): Promise<string[]> {
+  try {
+    const entries = await readdir(getCacheDir(), { withFileTypes: true });
+    return entries.filter((e) => e.isDirectory()).map((e) => decodeURIComponent(e.name));
+  } catch {
+    return [];
+  }
+}
+
+export async function getCacheStatus(fileKey?: string): Promise<{
+  cacheDir: string;
+  enabled: boolean;
+  totalBytes: number;
+  files: Array<{ fileKey: string; totalBytes: number; entries: CacheMeta[] }>;
+}> {
+  const keys = fileKey ? [fileKey] : await listFileKeys();
+  const files: Array<{ fileKey: string; totalBytes: number; entries: CacheMeta[] }> = [];
+  for (const key of keys.sort()) {
+    const dir = join(getCacheDir(), encodeURIComponent(key));
+    let names: string[] = [];
+    try {
+      names = await readdir(dir);
+    } catch {
+      continue;
+    }
+    const entries: CacheMeta[] = [];
+    for (const name of names.filter((n) => n.endsWith(".meta.json")).sort()) {
+      const meta = await readJson<CacheMeta>(join(dir, name));
+      if (meta) entries.push(meta);
+    }
+    if (entries.length === 0) continue;
+    const totalBytes = entries.reduce((sum, e) => sum + (e.bytes ?? 0), 0);
+    files.push({ fileKey: key, totalBytes, entries });
+  }
+  return {
+    cacheDir: getCacheDir(),
+    enabled: isCacheEnabled(),
+    totalBytes: files.reduce((sum, f) => sum + f.totalBytes, 0),
+    files,
+  };
+}
+
+export async function clearCache(fileKey?: string): Promise<{ removedFiles: string[]; removedBytes: number }> {
+  const keys = fileKey ? [fileKey] : await listFileKeys();
+  const removedFiles: string[] = [];
+  let removedBytes = 0;
+  for (const key of keys) {
+    const dir = join(getCacheDir(), encodeURIComponent(key));
+    try {
+      for (const name of await readdir(dir)) {
+        removedBytes += (await stat(join(dir, name))).size;
+      }
+    } catch {
+      continue;
+    }
+    await rm(dir, { recursive: true, force: true });
+    versionProbes.delete(key);
+    removedFiles.push(key);
+  }
+  return { removedFiles, removedBytes };
+}
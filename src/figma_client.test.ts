@@ -0,0 +1,79 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { fetchFigma, FigmaApiError } from "./figma_client.js";
+
+// Each test queues the responses the mock API gives, one per request; the last one repeats.
+type MockResponse = { status: number; body?: unknown; headers?: Record<string, string>; stallMs?: number };
+
+let server: Server;
+let responses: MockResponse[] = [];
+let requests: Array<{ method: string; url: string }> = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests.push({ method: req.method ?? "", url: req.url ?? "" });
+    const next = (responses.length > 1 ? responses.shift() : responses[0]) ?? { status: 200 };
+    setTimeout(() => {
+      res.writeHead(next.status, { "content-type": "application/json", ...next.headers });
+      res.end(JSON.stringify(next.body ?? {}));
+    }, next.stallMs ?? 0);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  process.env.FIGMA_API_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.FIGMA_MAX_RETRIES = "2";
+  process.env.FIGMA_MAX_RETRY_DELAY_MS = "5";
+});
+
+afterEach(() => {
+  responses = [];
+  requests = [];
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("fetchFigma", () => {
+  it("retries a GET after a 5xx and returns the next success", async () => {
+    responses = [{ status: 503 }, { status: 200, body: { name: "Demo" } }];
+    await expect(fetchFigma("files/abc", "token")).resolves.toEqual({ name: "Demo" });
+    expect(requests).toHaveLength(2);
+  });
+
+  it("gives up after FIGMA_MAX_RETRIES retries with the status and attempt count", async () => {
+    responses = [{ status: 502, body: { err: "Bad gateway" } }];
+    const error = await fetchFigma("files/abc", "token").catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(FigmaApiError);
+    expect((error as FigmaApiError).status).toBe(502);
+    expect((error as FigmaApiError).message).toContain("(after 3 attempts)");
+    expect(requests).toHaveLength(3);
+  });
+
+  it("does not retry client errors", async () => {
+    responses = [{ status: 404, body: { err: "Not found" } }];
+    await expect(fetchFigma("files/missing", "token")).rejects.toMatchObject({ status: 404, endpoint: "files/missing" });
+    expect(requests).toHaveLength(1);
+  });
+
+  it("honours Retry-After on 429, for POSTs too", async () => {
+    responses = [{ status: 429, headers: { "retry-after": "0" } }, { status: 200, body: { id: "1" } }];
+    const body = JSON.stringify({ message: "hi" });
+    await expect(fetchFigma("files/abc/comments", "token", { method: "POST", body })).resolves.toEqual({ id: "1" });
+    expect(requests.map((r) => r.method)).toEqual(["POST", "POST"]);
+  });
+
+  it("does not retry a POST after a 5xx, which may already have been applied", async () => {
+    responses = [{ status: 500 }, { status: 200 }];
+    const body = JSON.stringify({ message: "hi" });
+    await expect(fetchFigma("files/abc/comments", "token", { method: "POST", body })).rejects.toMatchObject({ status: 500 });
+    expect(requests).toHaveLength(1);
+  });
+
+  it("times out a stalled GET and retries it", async () => {
+    responses = [{ status: 200, stallMs: 200 }, { status: 200, body: { ok: true } }];
+    await expect(fetchFigma("files/abc", "token", { timeoutMs: 50 })).resolves.toEqual({ ok: true });
+    expect(requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,253 @@
+// Shared Figma REST client used by the MCP server and the figma-mcp CLI.
+// Handles rate limits (429 + Retry-After), transient 5xx/network failures of GETs with backoff,
+// per-request timeouts and a configurable base URL. Plain GETs go through the on-disk cache.
+// getFile/getFileNodes/getImages/getFileStyles/getFileVersions/getFileComments return responses
+// validated against figma_types.ts.
+//
+// Env:
+//   FIGMA_API_BASE_URL=<url>        default https://api.figma.com/v1 (point at a mock server in tests)
+//   FIGMA_TIMEOUT_MS=<ms>           per-attempt timeout (default: 60000)
+//   FIGMA_MAX_RETRIES=<n>           retries for 429, and for 5xx/network errors on GETs (default: 3)
+//   FIGMA_MAX_RETRY_DELAY_MS=<ms>   upper bound for a single wait, including Retry-After (default: 60000)
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { cachedFigmaGet } from "./figma_cache.js";
+import {
+  CommentsResponseSchema,
+  FileNodesResponseSchema,
+  FileResponseSchema,
+  ImagesResponseSchema,
+  parseFigmaResponse,
+  StylesResponseSchema,
+  VersionsResponseSchema,
+  type CommentsResponse,
+  type FigmaFile,
+  type FileNodesResponse,
+  type ImagesResponse,
+  type StylesResponse,
+  type VersionsResponse,
+} from "./figma_types.js";
+
+export type FigmaRequestInit = RequestInit & {
+  timeoutMs?: number;
+  retries?: number;
+};
+
+export class FigmaApiError extends McpError {
+  readonly status: number | undefined;
+  readonly endpoint: string;
+  readonly hint: string | undefined;
+
+  constructor(
+    message: string,
+    details: { status?: number; endpoint: string; hint?: string; attempts: number; retryAfterMs?: number; body?: string }
+  ) {
+    const code = details.status === 400 || details.status === 404 ? ErrorCode.InvalidParams : ErrorCode.InternalError;
+    super(code, message, details);
+    this.name = "FigmaApiError";
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.hint = details.hint;
+  }
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const raw = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(raw) && raw >= 0 ? raw : fallback;
+}
+
+export function getFigmaApiBaseUrl(): string {
+  return (process.env.FIGMA_API_BASE_URL || "https://api.figma.com/v1").replace(/\/+$/, "");
+}
+
+function hintForStatus(status: number | undefined): string | undefined {
+  switch (status) {
+    case 400:
+      return "Figma rejected the request parameters; check node ids and query options.";
+    case 401:
+      return "The token is missing or invalid; check FIGMA_TOKEN (personal access tokens start with figd_).";
+    case 403:
+      return "The token has no access to this file; make sure the file is shared with the token owner and the token has file read scope.";
+    case 404:
+      return "The file or node does not exist; check the file key and node-id in the URL.";
+    case 429:
+      return "Figma rate limit reached; wait a bit or rely on the cache (figma_cache_status).";
+    case undefined:
+      return "Could not reach the Figma API; check the network or FIGMA_API_BASE_URL.";
+    default:
+      return status >= 500 ? "Figma is having trouble right now; try again later." : undefined;
+  }
+}
+
+// 429 means Figma turned the request away unprocessed, so any method may retry it. A timeout, network error
+// or 5xx can come after a POST was already applied, so only idempotent methods retry those.
+function isRetryable(status: number | undefined, method: string): boolean {
+  if (status === 429) return true;
+  return (method === "GET" || method === "HEAD") && (status === undefined || status >= 500);
+}
+
+// Retry-After may be delta-seconds or an HTTP date.
+function parseRetryAfterMs(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function backoffMs(attempt: number): number {
+  const base = 500 * 2 ** attempt;
+  return base + Math.floor(Math.random() * base * 0.25);
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Low-level request without caching. Retries 429 for every method and 5xx/network errors/timeouts for GET
+ * and HEAD, honouring Retry-After, and aborts each attempt after `timeoutMs`. A caller-provided `signal`
+ * cancels immediately.
+ */
+export async function fetchFigma<T>(endpoint: string, token: string, init?: FigmaRequestInit): Promise<T> {
+  const { timeoutMs: initTimeout, retries: initRetries, ...requestInit } = init ?? {};
+  const timeoutMs = initTimeout ?? numberFromEnv("FIGMA_TIMEOUT_MS", 60_000);
+  const maxRetries = initRetries ?? numberFromEnv("FIGMA_MAX_RETRIES", 3);
+  const maxDelayMs = numberFromEnv("FIGMA_MAX_RETRY_DELAY_MS", 60_000);
+  const method = (requestInit.method || "GET").toUpperCase();
+  const callerSignal = requestInit.signal ?? undefined;
+  const url = `${getFigmaApiBaseUrl()}/${endpoint}`;
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const onCallerAbort = () => controller.abort(callerSignal?.reason);
+    if (callerSignal?.aborted) onCallerAbort();
+    callerSignal?.addEventListener("abort", onCallerAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(new Error(`timed out after ${timeoutMs}ms`)), timeoutMs);
+
+    let res: Response | undefined;
+    let data: unknown;
+    let body = "";
+    let failure: string | undefined;
+    try {
+      const response = await fetch(url, {
+        ...requestInit,
+        signal: controller.signal,
+        headers: {
+          "X-Figma-Token": token,
+          "Content-Type": "application/json",
+          ...(requestInit.headers || {}),
+        },
+      });
+      // The body is read before the timer is cleared, so a stalled body times out like a stalled connect
+      if (response.ok) data = await response.json();
+      else body = await response.text().catch(() => "");
+      res = response;
+    } catch (err) {
+      if (callerSignal?.aborted) throw err;
+      failure = controller.signal.aborted
+        ? String((controller.signal.reason as Error)?.message ?? "aborted")
+        : err instanceof Error
+          ? err.message
+          : String(err);
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener("abort", onCallerAbort);
+    }
+
+    if (res?.ok) return data as T;
+
+    const status = res?.status;
+    const retryAfterMs = parseRetryAfterMs(res?.headers.get("retry-after") ?? null);
+    if (isRetryable(status, method) && attempt < maxRetries) {
+      await sleep(Math.min(retryAfterMs ?? backoffMs(attempt), maxDelayMs), callerSignal);
+      continue;
+    }
+
+    const hint = hintForStatus(status);
+    const what = status === undefined ? `request failed (${failure ?? "network error"})` : `error ${status}`;
+    const attempts = attempt + 1;
+    let message = `Figma API ${what} on ${method} ${endpoint}`;
+    if (body) message += `: ${body.slice(0, 500)}`;
+    if (attempts > 1) message += ` (after ${attempts} attempts)`;
+    if (hint) message += `\nHint: ${hint}`;
+    throw new FigmaApiError(message, {
+      endpoint,
+      attempts,
+      ...(status !== undefined ? { status } : {}),
+      ...(hint ? { hint } : {}),
+      ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+      ...(body ? { body } : {}),
+    });
+  }
+}
+
+/**
+ * Request a Figma REST endpoint (relative to the base URL, e.g. `files/<key>`).
+ * GET requests for files and nodes are served from the on-disk cache when the file version is unchanged.
+ */
+export async function figmaRequest<T>(endpoint: string, token: string, init?: FigmaRequestInit): Promise<T> {
+  if (init?.method && init.method.toUpperCase() !== "GET") return fetchFigma<T>(endpoint, token, init);
+  return cachedFigmaGet<T>(endpoint, (ep) => fetchFigma<unknown>(ep, token, init));
+}
+
+function withQuery(endpoint: string, query: Record<string, string>): string {
+  const search = new URLSearchParams(query).toString();
+  return search ? `${endpoint}?${search}` : endpoint;
+}
+
+/** GET files/:key, validated. `query` takes the API's options (depth, version, geometry, ...). */
+export async function getFile(fileKey: string, token: string, query: Record<string, string> = {}): Promise<FigmaFile> {
+  const endpoint = withQuery(`files/${encodeURIComponent(fileKey)}`, query);
+  return parseFigmaResponse(FileResponseSchema, await figmaRequest<unknown>(endpoint, token), endpoint);
+}
+
+/** GET files/:key/nodes for `ids`, validated. Entries are null for ids Figma does not know. */
+export async function getFileNodes(
+  fileKey: string,
+  token: string,
+  ids: string[],
+  query: Record<string, string> = {}
+): Promise<FileNodesResponse> {
+  const endpoint = withQuery(`files/${encodeURIComponent(fileKey)}/nodes`, { ids: ids.join(","), ...query });
+  return parseFigmaResponse(FileNodesResponseSchema, await figmaRequest<unknown>(endpoint, token), endpoint);
+}
+
+/** GET images/:key (render URLs), validated. */
+export async function getImages(fileKey: string, token: string, query: Record<string, string>): Promise<ImagesResponse> {
+  const endpoint = withQuery(`images/${encodeURIComponent(fileKey)}`, query);
+  return parseFigmaResponse(ImagesResponseSchema, await figmaRequest<unknown>(endpoint, token), endpoint);
+}
+
+/** GET files/:key/styles (published styles), validated. */
+export async function getFileStyles(fileKey: string, token: string): Promise<StylesResponse> {
+  const endpoint = `files/${encodeURIComponent(fileKey)}/styles`;
+  return parseFigmaResponse(StylesResponseSchema, await figmaRequest<unknown>(endpoint, token), endpoint);
+}
+
+/** GET files/:key/versions (one page of version history), validated. `query` takes page_size/before/after. */
+export async function getFileVersions(
+  fileKey: string,
+  token: string,
+  query: Record<string, string> = {}
+): Promise<VersionsResponse> {
+  const endpoint = withQuery(`files/${encodeURIComponent(fileKey)}/versions`, query);
+  return parseFigmaResponse(VersionsResponseSchema, await figmaRequest<unknown>(endpoint, token), endpoint);
+}
+
+/** GET files/:key/comments (every comment and reply on the file), validated. */
+export async function getFileComments(fileKey: string, token: string): Promise<CommentsResponse> {
+  const endpoint = `files/${encodeURIComponent(fileKey)}/comments`;
+  return parseFigmaResponse(CommentsResponseSchema, await figmaRequest<unknown>(endpoint, token), endpoint);
+}
@@ -0,0 +1,210 @@
+// Comments (files/:key/comments): list threads with their pin and resolved state, post comments/replies,
+// and post analyzer findings as comments pinned to the offending nodes. Each finding comment ends with a
+// short fingerprint ("figma-mcp ref xxxxxxxx") so re-running skips nodes that were already commented on,
+// including threads a designer has resolved.
+
+import { createHash } from "node:crypto";
+import { runColorConsolidation } from "./color_consolidation.js";
+import { runContrastAudit } from "./contrast_audit.js";
+import { figmaRequest, getFileComments } from "./figma_client.js";
+import { CommentSchema, parseFigmaResponse, type FigmaApiComment } from "./figma_types.js";
+import { normalizeNodeId } from "./figma_utils.js";
+import { runSpacingAudit } from "./spacing_audit.js";
+import { runStyleUsageReport } from "./style_usage.js";
+
+export type CommentPin = { nodeId: string; offset?: { x: number; y: number } } | { x: number; y: number };
+
+export type FigmaComment = {
+  id: string;
+  message: string;
+  author: string;
+  createdAt: string;
+};
+
+export type CommentThread = FigmaComment & {
+  resolved: boolean;
+  resolvedAt?: string;
+  pinnedTo?: CommentPin;
+  replies: FigmaComment[];
+};
+
+export type Finding = { nodeId: string; message: string; rule?: string };
+
+export type FindingsAnalyzer = "contrast" | "spacing" | "detached-styles" | "color-variants";
+
+export type FindingsOptions = {
+  // Limit the analyzer to this node and its descendants.
+  rootNodeId?: string;
+  // Base grid for the spacing analyzer (default 8).
+  grid?: number;
+};
+
+const FINGERPRINT_PATTERN = /figma-mcp ref ([0-9a-f]{8})/;
+
+function toComment(c: FigmaApiComment): FigmaComment {
+  return { id: c.id, message: c.message, author: c.user?.handle ?? "-", createdAt: c.created_at };
+}
+
+function pinOf(meta: FigmaApiComment["client_meta"]): CommentPin | undefined {
+  if (!meta) return undefined;
+  if (meta.node_id !== undefined) {
+    const offset = meta.node_offset;
+    return offset ? { nodeId: meta.node_id, offset: { x: offset.x, y: offset.y } } : { nodeId: meta.node_id };
+  }
+  if (meta.x !== undefined && meta.y !== undefined) return { x: meta.x, y: meta.y };
+  return undefined;
+}
+
+async function fetchComments(fileKey: string, token: string): Promise<FigmaApiComment[]> {
+  return (await getFileComments(fileKey, token)).comments;
+}
+
+/** Comment threads (top-level comments with their replies), newest first. `nodeId` keeps threads pinned to that node. */
+export async function listCommentThreads(
+  fileKey: string,
+  token: string,
+  options: { includeResolved?: boolean; nodeId?: string } = {}
+): Promise<CommentThread[]> {
+  const comments = await fetchComments(fileKey, token);
+  const wanted = options.nodeId ? normalizeNodeId(options.nodeId) : undefined;
+  const threads = new Map<string, CommentThread>();
+  for (const c of comments) {
+    if (c.parent_id) continue;
+    const pin = pinOf(c.client_meta);
+    if (wanted && (!pin || !("nodeId" in pin) || pin.nodeId !== wanted)) continue;
+    if (c.resolved_at && options.includeResolved === false) continue;
+    threads.set(c.id, {
+      ...toComment(c),
+      resolved: Boolean(c.resolved_at),
+      ...(c.resolved_at ? { resolvedAt: c.resolved_at } : {}),
+      ...(pin ? { pinnedTo: pin } : {}),
+      replies: [],
+    });
+  }
+  for (const c of comments) {
+    const thread = c.parent_id ? threads.get(c.parent_id) : undefined;
+    if (thread) thread.replies.push(toComment(c));
+  }
+  for (const thread of threads.values()) thread.replies.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  return Array.from(threads.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Post a comment: a reply when `replyTo` is set, otherwise a new thread (pinned to `nodeId` when given). */
+export async function postComment(
+  fileKey: string,
+  token: string,
+  input: { message: string; replyTo?: string; nodeId?: string; offset?: { x: number; y: number } }
+): Promise<FigmaComment> {
+  const body: Record<string, unknown> = { message: input.message };
+  if (input.replyTo) body.comment_id = input.replyTo;
+  else if (input.nodeId) body.client_meta = { node_id: normalizeNodeId(input.nodeId), node_offset: input.offset ?? { x: 0, y: 0 } };
+  const endpoint = `files/${encodeURIComponent(fileKey)}/comments`;
+  const created = await figmaRequest<unknown>(endpoint, token, { method: "POST", body: JSON.stringify(body) });
+  return toComment(parseFigmaResponse(CommentSchema, created, endpoint));
+}
+
+export function findingFingerprint(finding: Finding): string {
+  const source = `${finding.rule ?? ""}|${normalizeNodeId(finding.nodeId)}|${finding.message}`;
+  return createHash("sha1").update(source).digest("hex").slice(0, 8);
+}
+
+/**
+ * Post findings as pinned comments. Findings whose fingerprint already appears in a comment on the file
+ * (resolved or not), or that repeat within the batch, are skipped. At most `maxComments` are posted.
+ * Posts are not retried after a timeout or 5xx (see figma_client.ts); such findings are listed under
+ * `failed`, and a re-run posts them only if the first attempt did not land.
+ */
+export async function postFindings(
+  fileKey: string,
+  token: string,
+  findings: Finding[],
+  options: { dryRun?: boolean; maxComments?: number } = {}
+) {
+  const maxComments = options.maxComments ?? 50;
+  const existing = new Set<string>();
+  for (const c of await fetchComments(fileKey, token)) {
+    const match = c.message.match(FINGERPRINT_PATTERN);
+    if (match?.[1]) existing.add(match[1]);
+  }
+
+  const posted: Array<{ nodeId: string; fingerprint: string; commentId?: string }> = [];
+  const skipped: Array<{ nodeId: string; fingerprint: string; reason: string }> = [];
+  const failed: Array<{ nodeId: string; fingerprint: string; error: string }> = [];
+  for (const finding of findings) {
+    const fingerprint = findingFingerprint(finding);
+    const nodeId = normalizeNodeId(finding.nodeId);
+    if (existing.has(fingerprint)) {
+      skipped.push({ nodeId, fingerprint, reason: "already commented" });
+      continue;
+    }
+    if (posted.length >= maxComments) {
+      skipped.push({ nodeId, fingerprint, reason: "maxComments reached" });
+      continue;
+    }
+    existing.add(fingerprint);
+    const label = finding.rule ? `[${finding.rule}] ` : "";
+    const message = `${label}${finding.message}\n\n— figma-mcp ref ${fingerprint}`;
+    if (options.dryRun) {
+      posted.push({ nodeId, fingerprint });
+      continue;
+    }
+    try {
+      const comment = await postComment(fileKey, token, { message, nodeId });
+      posted.push({ nodeId, fingerprint, commentId: comment.id });
+    } catch (err) {
+      failed.push({ nodeId, fingerprint, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return { dryRun: Boolean(options.dryRun), posted, skipped, failed };
+}
+
+/** Run one of the built-in analyzers and turn its report into findings. */
+export async function findingsFromAnalyzer(
+  analyzer: FindingsAnalyzer,
+  fileKey: string,
+  token: string,
+  options: FindingsOptions = {}
+): Promise<Finding[]> {
+  const scope = options.rootNodeId ? { rootNodeId: options.rootNodeId } : {};
+  switch (analyzer) {
+    case "contrast": {
+      const report = await runContrastAudit(fileKey, token, scope);
+      // With an image or gradient behind the text the ratio is only an estimate, so those ask for a check
+      return report.results.map((r): Finding => ({
+        nodeId: r.nodeId,
+        rule: "contrast",
+        message: r.manualReview
+          ? `Contrast needs manual review: ${r.manualReview}, estimated ${r.ratio}:1 (${r.textColor} on ${r.background}) against the ${report.level} minimum of ${r.required}:1.`
+          : `Contrast ${r.ratio}:1 (${r.textColor} on ${r.background}) is below the ${report.level} minimum of ${r.required}:1.`,
+      }));
+    }
+    case "spacing": {
+      const report = await runSpacingAudit(fileKey, token, { grid: options.grid ?? 8, ...scope });
+      return report.offenders.map((o): Finding => ({
+        nodeId: o.nodeId,
+        rule: "spacing",
+        message: `${o.property} is ${o.value}px, off the ${report.grid}px grid (try ${o.suggested.join(" or ")}px).`,
+      }));
+    }
+    case "detached-styles": {
+      const report = await runStyleUsageReport(fileKey, token, scope);
+      return report.detached.map((d): Finding => ({
+        nodeId: d.nodeId,
+        rule: "detached-style",
+        message: `The ${d.property} matches the style "${d.styleName}" but is not linked to it.`,
+      }));
+    }
+    case "color-variants": {
+      const report = await runColorConsolidation(fileKey, token, scope);
+      return report.clusters.flatMap((cluster) =>
+        cluster.variants.flatMap((variant) =>
+          variant.nodes.map((n): Finding => ({
+            nodeId: n.nodeId,
+            rule: "off-palette-color",
+            message: `${n.property} ${variant.hex} is a near-duplicate of ${cluster.canonical.styleName ?? cluster.canonical.hex} (ΔE ${variant.deltaE}).`,
+          }))
+        )
+      );
+    }
+  }
+}
@@ -0,0 +1,79 @@
+// Typed accessors for the node fields every analyzer needs. Size, fills and strokes have a few shapes in
+// the wild (bounding box vs. size, hidden paints, null boxes on invisible nodes); these helpers are the one
+// place that knows about them.
+
+import type {
+  CanvasNode,
+  ComponentNode,
+  DocumentNode,
+  FigmaColor,
+  FigmaNode,
+  FigmaRectangle,
+  FrameNode,
+  InstanceNode,
+  KnownNodeType,
+  Paint,
+  ShapeNode,
+  TextNode,
+} from "./figma_types.js";
+
+type KnownNode = DocumentNode | CanvasNode | FrameNode | ComponentNode | InstanceNode | TextNode | ShapeNode;
+
+// Matched on membership rather than Extract, since one node shape covers several types (GROUP is a FrameNode)
+export type NodeOfType<T extends KnownNodeType> = KnownNode extends infer N
+  ? N extends { type: infer U }
+    ? T extends U
+      ? N
+      : never
+    : never
+  : never;
+
+export function isNodeType<T extends KnownNodeType>(node: FigmaNode | undefined, type: T): node is NodeOfType<T> {
+  return node?.type === type;
+}
+
+export function nodeChildren(node: FigmaNode | undefined): FigmaNode[] {
+  return Array.isArray(node?.children) ? node.children : [];
+}
+
+/** Absolute bounding box; undefined for nodes without one (pages, some invisible nodes). */
+export function nodeBox(node: FigmaNode | undefined): FigmaRectangle | undefined {
+  return node?.absoluteBoundingBox ?? undefined;
+}
+
+/** Width and height from the bounding box, falling back to `size` (present with geometry and on older files). */
+export function nodeSize(node: FigmaNode | undefined): { width: number; height: number } | undefined {
+  const box = nodeBox(node);
+  if (box) return { width: box.width, height: box.height };
+  return node?.size ? { width: node.size.x, height: node.size.y } : undefined;
+}
+
+export function visiblePaints(paints: Paint[] | undefined): Paint[] {
+  return Array.isArray(paints) ? paints.filter((p) => p && p.visible !== false) : [];
+}
+
+/** Visible fills, bottom to top (Figma order). */
+export function nodeFills(node: FigmaNode | undefined): Paint[] {
+  return visiblePaints(node?.fills);
+}
+
+/** Visible strokes, bottom to top. */
+export function nodeStrokes(node: FigmaNode | undefined): Paint[] {
+  return visiblePaints(node?.strokes);
+}
+
+function solidPaints(paints: Paint[]): Array<Paint & { color: FigmaColor }> {
+  return paints.filter((p): p is Paint & { color: FigmaColor } => p.type === "SOLID" && !!p.color);
+}
+
+export function solidFills(node: FigmaNode | undefined): Array<Paint & { color: FigmaColor }> {
+  return solidPaints(nodeFills(node));
+}
+
+export function solidStrokes(node: FigmaNode | undefined): Array<Paint & { color: FigmaColor }> {
+  return solidPaints(nodeStrokes(node));
+}
+
+export function hasVisibleStroke(node: FigmaNode | undefined): boolean {
+  return nodeStrokes(node).length > 0;
+}
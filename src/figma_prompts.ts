@@ -0,0 +1,160 @@
+// MCP prompts for the common design workflows. Each takes a Figma URL (or any text containing one),
+// resolves the file/node with extractFirstUrlCandidate + parseFigmaUrl, runs the relevant analysis and
+// embeds a compact summary, so every teammate starts from the same instructions and data.
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { runColorConsolidation } from "./color_consolidation.js";
+import { runContrastAudit } from "./contrast_audit.js";
+import { nodeUri, readNodeResource } from "./figma_resources.js";
+import { extractFirstUrlCandidate, getFigmaToken, normalizeNodeId, parseFigmaUrl } from "./figma_utils.js";
+import { runSpacingAudit } from "./spacing_audit.js";
+import { runStyleUsageReport } from "./style_usage.js";
+import { runTypographyAudit } from "./typography_audit.js";
+import { diffVersions, renderDiffMarkdown } from "./version_diff.js";
+
+function resolveUrl(input: string): { url: string; fileKey: string; nodeId?: string } {
+  const url = extractFirstUrlCandidate(input);
+  if (!url) throw new Error("No Figma URL found in the url argument");
+  const { fileKey, nodeId } = parseFigmaUrl(url);
+  return nodeId ? { url, fileKey, nodeId: normalizeNodeId(nodeId) } : { url, fileKey };
+}
+
+function block(title: string, value: unknown): string {
+  return `## ${title}\n\`\`\`json\n${JSON.stringify(value, null, 2)}\n\`\`\``;
+}
+
+function userText(text: string): GetPromptResult["messages"][number] {
+  return { role: "user", content: { type: "text", text } };
+}
+
+async function nodeMessage(fileKey: string, nodeId: string, token: string): Promise<GetPromptResult["messages"][number]> {
+  const node = await readNodeResource(fileKey, nodeId, token);
+  return {
+    role: "user",
+    content: {
+      type: "resource",
+      resource: { uri: nodeUri(fileKey, nodeId), mimeType: "application/json", text: JSON.stringify(node, null, 2) },
+    },
+  };
+}
+
+/** Register the workflow prompts. */
+export function registerFigmaPrompts(mcp: McpServer): void {
+  // design_system_audit: styles, typography, colors and spacing in one pass
+  mcp.prompt(
+    "design_system_audit",
+    "Audit this file's design system: style usage, stray typography, near-duplicate colors and off-grid spacing.",
+    { url: z.string().describe("Figma file URL (or text containing one)") },
+    async ({ url }) => {
+      const token = getFigmaToken(process.env);
+      const target = resolveUrl(url);
+      const styles = await runStyleUsageReport(target.fileKey, token, { maxUsagesPerStyle: 3, maxDetached: 20 });
+      const typography = await runTypographyAudit(target.fileKey, token);
+      const colors = await runColorConsolidation(target.fileKey, token, { maxNodesPerVariant: 3 });
+      const spacing = await runSpacingAudit(target.fileKey, token, { grid: 8, maxOffenders: 20 });
+      const text = [
+        `You are reviewing the design system of the Figma file "${styles.fileName}" (${target.url}).`,
+        "Using the data below, write a prioritised audit: what is healthy, what is inconsistent, and concrete fixes",
+        "(which styles to merge or delete, which text combinations to map to which style, which colors to consolidate,",
+        "which spacing values to round). Cite node paths. Use the figma_* tools if you need more detail.",
+        "",
+        block("Style usage", { counts: styles.counts, unusedStyles: styles.unusedStyles, detachedSample: styles.detached }),
+        block("Typography", {
+          textNodeCount: typography.textNodeCount,
+          strayCombinations: typography.strayCombinations,
+          stray: typography.combinations
+            .filter((c) => !c.matchingStyle)
+            .slice(0, 15)
+            .map(({ sampleNodeIds: _ids, frames: _frames, ...rest }) => rest),
+        }),
+        block("Near-duplicate colors", { clusterCount: colors.clusterCount, clusters: colors.clusters.slice(0, 10) }),
+        block("Spacing (8px grid)", { offGridCount: spacing.offGridCount, histogram: spacing.histogram.all, offenders: spacing.offenders }),
+      ].join("\n");
+      return { description: `Design system audit for ${styles.fileName}`, messages: [userText(text)] };
+    }
+  );
+
+  // implement_frame: simplified node tree embedded as a figma:// resource
+  mcp.prompt(
+    "implement_frame",
+    "Implement the frame/component from the URL's node-id as a UI component, using its simplified node tree.",
+    {
+      url: z.string().describe("Figma URL with a node-id"),
+      framework: z.string().optional().describe("Target stack, e.g. React + CSS modules (default), Vue, SwiftUI"),
+    },
+    async ({ url, framework }) => {
+      const token = getFigmaToken(process.env);
+      const target = resolveUrl(url);
+      if (!target.nodeId) throw new Error("The URL needs a node-id (select the frame in Figma and copy its link)");
+      const stack = framework || "React + CSS modules";
+      const text = [
+        `Implement the Figma node ${target.nodeId} (${target.url}) as a reusable ${stack} component.`,
+        "The attached resource is its simplified node tree: `layout` is auto-layout (map it to flexbox/stack layouts),",
+        "`sizingHorizontal`/`sizingVertical` are FILL/HUG/FIXED, `position` marks absolutely positioned children,",
+        "and nested INSTANCE nodes are other components (reuse existing ones by name when possible).",
+        "Use design tokens for colors and typography when the project has them, keep the layer names as class/prop",
+        "names where sensible, expose text content and variants as props, and list anything you had to guess.",
+      ].join("\n");
+      return {
+        description: `Implement ${target.nodeId} in ${stack}`,
+        messages: [userText(text), await nodeMessage(target.fileKey, target.nodeId, token)],
+      };
+    }
+  );
+
+  // summarize_changes: version diff rendered as Markdown
+  mcp.prompt(
+    "summarize_changes",
+    "Summarize what changed in the design since a given version (use figma_list_versions to find version ids).",
+    {
+      url: z.string().describe("Figma file URL (or text containing one)"),
+      fromVersion: z.string().describe("Version id to compare from"),
+      toVersion: z.string().optional().describe("Version id to compare to (default: current)"),
+    },
+    async ({ url, fromVersion, toVersion }) => {
+      const token = getFigmaToken(process.env);
+      const target = resolveUrl(url);
+      const diff = await diffVersions(target.fileKey, token, fromVersion, toVersion, { maxChangesPerPage: 100 });
+      const text = [
+        `Summarize the design changes in "${diff.fileName}" between the versions below for a sprint ticket.`,
+        "Group by page and by intent (new screens, visual tweaks, copy changes, component/style changes),",
+        "call out anything that likely needs engineering work, and skip pure renames unless they matter.",
+        "",
+        renderDiffMarkdown(diff),
+      ].join("\n");
+      return { description: `Changes in ${diff.fileName} since ${fromVersion}`, messages: [userText(text)] };
+    }
+  );
+
+  // accessibility_review: contrast results plus the screen's node tree
+  mcp.prompt(
+    "accessibility_review",
+    "Review the accessibility of a screen: WCAG contrast results plus the screen's structure (text sizes, touch targets, reading order).",
+    {
+      url: z.string().describe("Figma URL, ideally with the screen's node-id"),
+      level: z.enum(["AA", "AAA"]).optional().describe("WCAG level (default AA)"),
+    },
+    async ({ url, level }) => {
+      const token = getFigmaToken(process.env);
+      const target = resolveUrl(url);
+      const contrast = await runContrastAudit(target.fileKey, token, {
+        level: level ?? "AA",
+        maxResults: 50,
+        ...(target.nodeId ? { rootNodeId: target.nodeId } : {}),
+      });
+      const text = [
+        `Review the accessibility of ${target.nodeId ? `screen ${target.nodeId}` : "this file"} (${target.url}) against WCAG 2.2 ${contrast.level}.`,
+        "Cover: text contrast (data below; entries with manualReview sit on images/gradients and need a human look),",
+        "text smaller than 12px, touch targets smaller than 44x44, reading/focus order implied by the layout,",
+        "and information conveyed by color alone. Give each issue a node path, the criterion, and a concrete fix.",
+        "",
+        block("Contrast", { summary: contrast.summary, failures: contrast.results }),
+      ].join("\n");
+      const messages = [userText(text)];
+      if (target.nodeId) messages.push(await nodeMessage(target.fileKey, target.nodeId, token));
+      return { description: `Accessibility review (${contrast.level})`, messages };
+    }
+  );
+}
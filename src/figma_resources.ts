@@ -0,0 +1,228 @@
+// MCP resources for Figma files, pages and nodes:
+//   figma://file/{fileKey}                    file summary: pages and their top-level frames
+//   figma://file/{fileKey}/page/{pageName}    one page's top-level frames (by page name or id)
+//   figma://file/{fileKey}/node/{nodeId}      simplified node JSON (see simplify.ts)
+// Listing covers FIGMA_DEFAULT_URL, FIGMA_RESOURCE_FILES (comma-separated keys or URLs) and every file read
+// through a resource in this session; a newly read file sends resources/list_changed. Subscriptions poll the file version (FIGMA_RESOURCE_POLL_MS,
+// default 60000) and send resources/updated when it changes.
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema, type Resource } from "@modelcontextprotocol/sdk/types.js";
+import { fetchFigma, getFile, getFileNodes } from "./figma_client.js";
+import { nodeChildren, nodeSize } from "./figma_nodes.js";
+import { FileResponseSchema, parseFigmaResponse, type FigmaFile, type FigmaNode } from "./figma_types.js";
+import { getFigmaToken, normalizeNodeId, parseFigmaUrl } from "./figma_utils.js";
+import { simplifyNode } from "./simplify.js";
+
+const MIME_TYPE = "application/json";
+
+export function fileUri(fileKey: string): string {
+  return `figma://file/${encodeURIComponent(fileKey)}`;
+}
+
+export function pageUri(fileKey: string, pageName: string): string {
+  return `${fileUri(fileKey)}/page/${encodeURIComponent(pageName)}`;
+}
+
+export function nodeUri(fileKey: string, nodeId: string): string {
+  return `${fileUri(fileKey)}/node/${encodeURIComponent(nodeId)}`;
+}
+
+function variable(variables: Record<string, string | string[]>, name: string): string {
+  const value = variables[name];
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (!raw) throw new Error(`Missing ${name} in resource URI`);
+  return decodeURIComponent(raw);
+}
+
+function fileKeyFromUri(uri: string): string | undefined {
+  const match = uri.match(/^figma:\/\/file\/([^/]+)/);
+  return match?.[1] ? decodeURIComponent(match[1]) : undefined;
+}
+
+function configuredFileKeys(): string[] {
+  const entries = [process.env.FIGMA_DEFAULT_URL ?? "", ...(process.env.FIGMA_RESOURCE_FILES ?? "").split(",")]
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return entries.map((entry) => (entry.startsWith("http") ? parseFigmaUrl(entry).fileKey : entry));
+}
+
+// Pages and top-level frames are all a listing needs; depth=2 keeps the response small.
+async function fetchOutline(fileKey: string, token: string): Promise<FigmaFile> {
+  return getFile(fileKey, token, { depth: "2" });
+}
+
+// Bypasses the cache, which would otherwise answer from its own check interval
+async function fetchVersion(fileKey: string, token: string): Promise<string | undefined> {
+  const endpoint = `files/${encodeURIComponent(fileKey)}?depth=1`;
+  const head = parseFigmaResponse(FileResponseSchema, await fetchFigma<unknown>(endpoint, token), endpoint);
+  return head.version;
+}
+
+function pageSummary(fileKey: string, page: FigmaNode) {
+  return {
+    id: page.id,
+    name: page.name,
+    uri: pageUri(fileKey, page.name || page.id),
+    frames: nodeChildren(page).map((f) => {
+      const size = nodeSize(f);
+      return { id: f.id, name: f.name, type: f.type, ...(size ? { size } : {}), uri: nodeUri(fileKey, f.id) };
+    }),
+  };
+}
+
+export async function readFileResource(fileKey: string, token: string) {
+  const file = await fetchOutline(fileKey, token);
+  return {
+    fileKey,
+    name: file.name,
+    version: file.version,
+    lastModified: file.lastModified,
+    pages: nodeChildren(file.document).map((p) => pageSummary(fileKey, p)),
+  };
+}
+
+export async function readPageResource(fileKey: string, pageName: string, token: string) {
+  const file = await fetchOutline(fileKey, token);
+  const pages = nodeChildren(file.document);
+  const page = pages.find((p) => p.name === pageName) ?? pages.find((p) => p.id === normalizeNodeId(pageName));
+  if (!page) throw new Error(`Page "${pageName}" not found in file ${fileKey}`);
+  return { fileKey, fileName: file.name, ...pageSummary(fileKey, page) };
+}
+
+export async function readNodeResource(fileKey: string, nodeId: string, token: string) {
+  const id = normalizeNodeId(nodeId);
+  const data = await getFileNodes(fileKey, token, [id]);
+  const document = data.nodes[id]?.document;
+  if (!document) throw new Error(`Node ${id} not found in file ${fileKey}`);
+  return { fileKey, fileName: data.name, node: simplifyNode(document) };
+}
+
+/**
+ * Register the resource templates and subscription handlers. Call before connecting the transport; the server
+ * must declare `resources: { subscribe: true, listChanged: true }` in its capabilities.
+ */
+export function registerFigmaResources(mcp: McpServer): void {
+  const knownFiles = new Set<string>(configuredFileKeys());
+  // Only files that were read successfully are remembered, so a mistyped key cannot break the listing
+  const remember = (fileKey: string) => {
+    if (knownFiles.has(fileKey)) return;
+    knownFiles.add(fileKey);
+    mcp.sendResourceListChanged();
+  };
+  const json = (uri: URL, value: unknown) => ({
+    contents: [{ uri: uri.href, mimeType: MIME_TYPE, text: JSON.stringify(value, null, 2) }],
+  });
+
+  // Listing is attached to the file template; it covers pages and top-level frames too. A failed read
+  // (bad token, no access) fails the listing rather than leaving the file out.
+  const listAll = async () => {
+    const resources: Resource[] = [];
+    if (knownFiles.size === 0) return { resources };
+    const token = getFigmaToken(process.env);
+    for (const fileKey of knownFiles) {
+      const summary = await readFileResource(fileKey, token);
+      resources.push({ uri: fileUri(fileKey), name: summary.name, mimeType: MIME_TYPE, description: "Figma file: pages and top-level frames" });
+      for (const page of summary.pages) {
+        resources.push({ uri: page.uri, name: `${summary.name} / ${page.name}`, mimeType: MIME_TYPE });
+        for (const frame of page.frames) {
+          resources.push({ uri: frame.uri, name: `${summary.name} / ${page.name} / ${frame.name}`, mimeType: MIME_TYPE });
+        }
+      }
+    }
+    return { resources };
+  };
+
+  mcp.resource(
+    "figma-file",
+    new ResourceTemplate("figma://file/{fileKey}", { list: listAll }),
+    { description: "Figma file summary: pages with their top-level frames (and the URIs to read them)", mimeType: MIME_TYPE },
+    async (uri, variables) => {
+      const fileKey = variable(variables, "fileKey");
+      const summary = await readFileResource(fileKey, getFigmaToken(process.env));
+      remember(fileKey);
+      return json(uri, summary);
+    }
+  );
+
+  mcp.resource(
+    "figma-page",
+    new ResourceTemplate("figma://file/{fileKey}/page/{pageName}", { list: undefined }),
+    { description: "Top-level frames of one page (page name or id)", mimeType: MIME_TYPE },
+    async (uri, variables) => {
+      const fileKey = variable(variables, "fileKey");
+      const page = await readPageResource(fileKey, variable(variables, "pageName"), getFigmaToken(process.env));
+      remember(fileKey);
+      return json(uri, page);
+    }
+  );
+
+  mcp.resource(
+    "figma-node",
+    new ResourceTemplate("figma://file/{fileKey}/node/{nodeId}", { list: undefined }),
+    { description: "Simplified node JSON (layout, sizing, fills, text) for a frame, component or any node", mimeType: MIME_TYPE },
+    async (uri, variables) => {
+      const fileKey = variable(variables, "fileKey");
+      const node = await readNodeResource(fileKey, variable(variables, "nodeId"), getFigmaToken(process.env));
+      remember(fileKey);
+      return json(uri, node);
+    }
+  );
+
+  const subscriptions = new Set<string>();
+  const versions = new Map<string, string>();
+  let timer: NodeJS.Timeout | undefined;
+  let polling = false;
+
+  // A poll can outlast the interval on a slow API; the next tick is skipped rather than run alongside it
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      const token = getFigmaToken(process.env);
+      const fileKeys = new Set(Array.from(subscriptions, (uri) => fileKeyFromUri(uri)).filter((k): k is string => !!k));
+      for (const fileKey of fileKeys) {
+        const version = await fetchVersion(fileKey, token).catch(() => undefined);
+        if (!version) continue;
+        const previous = versions.get(fileKey);
+        versions.set(fileKey, version);
+        if (previous === undefined || previous === version) continue;
+        for (const uri of subscriptions) {
+          if (fileKeyFromUri(uri) === fileKey) await mcp.server.sendResourceUpdated({ uri }).catch(() => undefined);
+        }
+      }
+    } finally {
+      polling = false;
+    }
+  };
+
+  const updateTimer = () => {
+    if (subscriptions.size > 0 && !timer) {
+      const interval = Number(process.env.FIGMA_RESOURCE_POLL_MS) > 0 ? Number(process.env.FIGMA_RESOURCE_POLL_MS) : 60_000;
+      timer = setInterval(() => void poll(), interval);
+      timer.unref();
+    } else if (subscriptions.size === 0 && timer) {
+      clearInterval(timer);
+      timer = undefined;
+    }
+  };
+
+  mcp.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const fileKey = fileKeyFromUri(request.params.uri);
+    if (!fileKey) throw new Error(`Not a figma:// resource: ${request.params.uri}`);
+    subscriptions.add(request.params.uri);
+    // Record the current version so the first poll has something to compare against
+    if (!versions.has(fileKey)) {
+      const version = await fetchVersion(fileKey, getFigmaToken(process.env)).catch(() => undefined);
+      if (version) versions.set(fileKey, version);
+    }
+    if (versions.has(fileKey)) remember(fileKey);
+    updateTimer();
+    return {};
+  });
+  mcp.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    updateTimer();
+    return {};
+  });
+}
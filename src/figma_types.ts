@@ -0,0 +1,435 @@
+// Typed model of the Figma REST responses the server reads: a node union discriminated on `type`, and
+// zod schemas for the file, nodes, images, styles, versions and comments responses. Schemas declare the
+// fields the analyzers rely on and pass everything else through, so new API fields are kept but a renamed
+// or retyped field fails loudly with the node it happened on instead of turning into "(none)" further down.
+//
+// Env: FIGMA_VALIDATE=strict (default: throw on mismatch) | warn (log to stderr, use the raw data) | off
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+export const ColorSchema = z.object({ r: z.number(), g: z.number(), b: z.number(), a: z.number().optional() }).passthrough();
+
+export const RectangleSchema = z.object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() }).passthrough();
+
+export const VectorSchema = z.object({ x: z.number(), y: z.number() }).passthrough();
+
+export const PaintSchema = z
+  .object({
+    type: z.string(),
+    visible: z.boolean().optional(),
+    opacity: z.number().optional(),
+    color: ColorSchema.optional(),
+    blendMode: z.string().optional(),
+    gradientStops: z.array(z.object({ position: z.number(), color: ColorSchema }).passthrough()).optional(),
+    imageRef: z.string().nullable().optional(),
+  })
+  .passthrough();
+
+export const EffectSchema = z
+  .object({
+    type: z.string(),
+    visible: z.boolean().optional(),
+    radius: z.number().optional(),
+    spread: z.number().optional(),
+    color: ColorSchema.optional(),
+    offset: VectorSchema.optional(),
+  })
+  .passthrough();
+
+export const TypeStyleSchema = z
+  .object({
+    fontFamily: z.string().optional(),
+    fontPostScriptName: z.string().nullable().optional(),
+    fontStyle: z.string().optional(),
+    fontWeight: z.number().optional(),
+    fontSize: z.number().optional(),
+    italic: z.boolean().optional(),
+    letterSpacing: z.number().optional(),
+    lineHeightPx: z.number().optional(),
+    lineHeightPercentFontSize: z.number().optional(),
+    lineHeightUnit: z.string().optional(),
+    textCase: z.string().optional(),
+    textDecoration: z.string().optional(),
+    textAlignHorizontal: z.string().optional(),
+    textAlignVertical: z.string().optional(),
+    textAutoResize: z.string().optional(),
+    textTruncation: z.string().optional(),
+    maxLines: z.number().nullable().optional(),
+  })
+  .passthrough();
+
+export const LayoutGridSchema = z
+  .object({
+    pattern: z.string(),
+    visible: z.boolean().optional(),
+    alignment: z.string().optional(),
+    sectionSize: z.number().optional(),
+    gutterSize: z.number().optional(),
+    offset: z.number().optional(),
+    count: z.number().optional(),
+  })
+  .passthrough();
+
+export const ExportSettingSchema = z
+  .object({
+    format: z.string(),
+    suffix: z.string().optional(),
+    constraint: z.object({ type: z.string(), value: z.number() }).passthrough().optional(),
+  })
+  .passthrough();
+
+// Fields any node may carry. Geometry and paint fields are optional because depth-limited and
+// older responses omit them, and because not every node type has them.
+const NodeFieldsSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    visible: z.boolean().optional(),
+    locked: z.boolean().optional(),
+    opacity: z.number().optional(),
+    blendMode: z.string().optional(),
+    absoluteBoundingBox: RectangleSchema.nullable().optional(),
+    absoluteRenderBounds: RectangleSchema.nullable().optional(),
+    size: VectorSchema.optional(),
+    fills: z.array(PaintSchema).optional(),
+    strokes: z.array(PaintSchema).optional(),
+    strokeWeight: z.number().optional(),
+    strokeAlign: z.string().optional(),
+    cornerRadius: z.number().optional(),
+    rectangleCornerRadii: z.array(z.number()).optional(),
+    effects: z.array(EffectSchema).optional(),
+    styles: z.record(z.string()).optional(),
+    exportSettings: z.array(ExportSettingSchema).optional(),
+    layoutGrids: z.array(LayoutGridSchema).optional(),
+    layoutMode: z.string().optional(),
+    layoutWrap: z.string().optional(),
+    layoutAlign: z.string().optional(),
+    layoutGrow: z.number().optional(),
+    layoutPositioning: z.string().optional(),
+    layoutSizingHorizontal: z.string().optional(),
+    layoutSizingVertical: z.string().optional(),
+    itemSpacing: z.number().optional(),
+    counterAxisSpacing: z.number().nullable().optional(),
+    paddingLeft: z.number().optional(),
+    paddingRight: z.number().optional(),
+    paddingTop: z.number().optional(),
+    paddingBottom: z.number().optional(),
+    primaryAxisAlignItems: z.string().optional(),
+    counterAxisAlignItems: z.string().optional(),
+    clipsContent: z.boolean().optional(),
+  })
+  .passthrough();
+
+export const ComponentPropertyDefinitionSchema = z
+  .object({
+    type: z.string(),
+    defaultValue: z.union([z.string(), z.boolean()]).optional(),
+    variantOptions: z.array(z.string()).optional(),
+  })
+  .passthrough();
+
+const ComponentFieldsSchema = NodeFieldsSchema.extend({
+  componentPropertyDefinitions: z.record(ComponentPropertyDefinitionSchema).optional(),
+});
+
+type NodeFields = z.infer<typeof NodeFieldsSchema>;
+type ComponentFields = z.infer<typeof ComponentFieldsSchema>;
+type Children = { children?: FigmaNode[] | undefined };
+
+export const CONTAINER_NODE_TYPES = ["DOCUMENT", "CANVAS", "FRAME", "GROUP", "SECTION", "COMPONENT", "COMPONENT_SET", "INSTANCE"] as const;
+export const SHAPE_NODE_TYPES = ["VECTOR", "BOOLEAN_OPERATION", "STAR", "LINE", "ELLIPSE", "REGULAR_POLYGON", "RECTANGLE", "SLICE"] as const;
+
+export type ContainerNodeType = (typeof CONTAINER_NODE_TYPES)[number];
+export type ShapeNodeType = (typeof SHAPE_NODE_TYPES)[number];
+export type KnownNodeType = ContainerNodeType | ShapeNodeType | "TEXT";
+
+export type DocumentNode = NodeFields & Children & { type: "DOCUMENT" };
+export type CanvasNode = NodeFields & Children & { type: "CANVAS"; backgroundColor?: z.infer<typeof ColorSchema> | undefined };
+export type FrameNode = NodeFields & Children & { type: "FRAME" | "GROUP" | "SECTION" };
+export type ComponentNode = ComponentFields & Children & { type: "COMPONENT" | "COMPONENT_SET" };
+export type InstanceNode = NodeFields &
+  Children & {
+    type: "INSTANCE";
+    componentId: string;
+    componentProperties?: Record<string, { type: string; value: unknown; [k: string]: unknown }> | undefined;
+  };
+export type TextNode = NodeFields &
+  Children & {
+    type: "TEXT";
+    characters: string;
+    style?: TypeStyle | undefined;
+    characterStyleOverrides?: number[] | undefined;
+    styleOverrideTable?: Record<string, TypeStyle> | undefined;
+  };
+export type ShapeNode = NodeFields & Children & { type: ShapeNodeType };
+/** A node type this model does not know yet (STICKY, CONNECTOR, TABLE, ...): only the common fields are typed. */
+export type UnknownNode = NodeFields & Children & { type: string };
+
+export type FigmaNode = DocumentNode | CanvasNode | FrameNode | ComponentNode | InstanceNode | TextNode | ShapeNode | UnknownNode;
+
+export type FigmaColor = z.infer<typeof ColorSchema>;
+export type FigmaRectangle = z.infer<typeof RectangleSchema>;
+export type Paint = z.infer<typeof PaintSchema>;
+export type Effect = z.infer<typeof EffectSchema>;
+export type TypeStyle = z.infer<typeof TypeStyleSchema>;
+export type LayoutGrid = z.infer<typeof LayoutGridSchema>;
+export type ExportSetting = z.infer<typeof ExportSettingSchema>;
+export type ComponentPropertyDefinition = z.infer<typeof ComponentPropertyDefinitionSchema>;
+
+type NodeSchema<T extends FigmaNode> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+const children = { children: z.array(z.lazy(() => FigmaNodeSchema)).optional() };
+
+const DocumentNodeSchema: NodeSchema<DocumentNode> = NodeFieldsSchema.extend({ type: z.literal("DOCUMENT"), ...children });
+
+const frameSchema = (type: FrameNode["type"]): NodeSchema<FrameNode> => NodeFieldsSchema.extend({ type: z.literal(type), ...children });
+const componentSchema = (type: ComponentNode["type"]): NodeSchema<ComponentNode> =>
+  ComponentFieldsSchema.extend({ type: z.literal(type), ...children });
+const shapeSchema = (type: ShapeNodeType): NodeSchema<ShapeNode> => NodeFieldsSchema.extend({ type: z.literal(type), ...children });
+
+const NODE_SCHEMAS: Record<KnownNodeType, NodeSchema<FigmaNode>> = {
+  DOCUMENT: DocumentNodeSchema,
+  CANVAS: NodeFieldsSchema.extend({ type: z.literal("CANVAS"), backgroundColor: ColorSchema.optional(), ...children }),
+  FRAME: frameSchema("FRAME"),
+  GROUP: frameSchema("GROUP"),
+  SECTION: frameSchema("SECTION"),
+  COMPONENT: componentSchema("COMPONENT"),
+  COMPONENT_SET: componentSchema("COMPONENT_SET"),
+  INSTANCE: NodeFieldsSchema.extend({
+    type: z.literal("INSTANCE"),
+    componentId: z.string(),
+    componentProperties: z.record(z.object({ type: z.string(), value: z.unknown() }).passthrough()).optional(),
+    ...children,
+  }),
+  TEXT: NodeFieldsSchema.extend({
+    type: z.literal("TEXT"),
+    characters: z.string(),
+    style: TypeStyleSchema.optional(),
+    characterStyleOverrides: z.array(z.number()).optional(),
+    styleOverrideTable: z.record(TypeStyleSchema).optional(),
+    ...children,
+  }),
+  VECTOR: shapeSchema("VECTOR"),
+  BOOLEAN_OPERATION: shapeSchema("BOOLEAN_OPERATION"),
+  STAR: shapeSchema("STAR"),
+  LINE: shapeSchema("LINE"),
+  ELLIPSE: shapeSchema("ELLIPSE"),
+  REGULAR_POLYGON: shapeSchema("REGULAR_POLYGON"),
+  RECTANGLE: shapeSchema("RECTANGLE"),
+  SLICE: shapeSchema("SLICE"),
+};
+
+const UnknownNodeSchema: NodeSchema<UnknownNode> = NodeFieldsSchema.extend({ type: z.string(), ...children });
+
+/**
+ * Any node. Dispatches on `type` so a broken TEXT node reports "characters: Required" at its own path
+ * rather than a union error, and unknown types fall back to the common fields.
+ */
+export const FigmaNodeSchema: NodeSchema<FigmaNode> = z.lazy(() =>
+  z
+    .object({ type: z.string() })
+    .passthrough()
+    .transform((raw, ctx) => {
+      const schema = NODE_SCHEMAS[raw.type as KnownNodeType] ?? UnknownNodeSchema;
+      const result = schema.safeParse(raw);
+      if (result.success) return result.data;
+      for (const issue of result.error.issues) ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message, path: issue.path });
+      return z.NEVER;
+    })
+);
+
+export const ComponentMetaSchema = z
+  .object({
+    key: z.string(),
+    name: z.string(),
+    description: z.string().optional(),
+    componentSetId: z.string().optional(),
+    documentationLinks: z.array(z.object({ uri: z.string() }).passthrough()).optional(),
+    remote: z.boolean().optional(),
+  })
+  .passthrough();
+
+export const StyleMetaSchema = z
+  .object({
+    key: z.string(),
+    name: z.string(),
+    styleType: z.string(),
+    description: z.string().optional(),
+    remote: z.boolean().optional(),
+  })
+  .passthrough();
+
+export const FileResponseSchema = z
+  .object({
+    name: z.string(),
+    lastModified: z.string().optional(),
+    version: z.string().optional(),
+    thumbnailUrl: z.string().optional(),
+    document: DocumentNodeSchema,
+    components: z.record(ComponentMetaSchema).default({}),
+    componentSets: z.record(ComponentMetaSchema).default({}),
+    styles: z.record(StyleMetaSchema).default({}),
+  })
+  .passthrough();
+
+export const FileNodesResponseSchema = z
+  .object({
+    name: z.string(),
+    lastModified: z.string().optional(),
+    version: z.string().optional(),
+    // Figma answers null for ids that do not exist
+    nodes: z.record(
+      z
+        .object({
+          document: FigmaNodeSchema,
+          components: z.record(ComponentMetaSchema).default({}),
+          componentSets: z.record(ComponentMetaSchema).default({}),
+          styles: z.record(StyleMetaSchema).default({}),
+        })
+        .passthrough()
+        .nullable()
+    ),
+  })
+  .passthrough();
+
+export const ImagesResponseSchema = z
+  .object({
+    err: z.string().nullable().optional(),
+    images: z.record(z.string().nullable()).default({}),
+  })
+  .passthrough();
+
+// files/:key/styles: the file's published styles
+export const StylesResponseSchema = z
+  .object({
+    meta: z
+      .object({
+        styles: z.array(
+          z
+            .object({
+              key: z.string(),
+              node_id: z.string(),
+              name: z.string(),
+              style_type: z.string(),
+              description: z.string().optional(),
+            })
+            .passthrough()
+        ),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+// files/:key/versions: one page of the version history, newest first
+export const VersionsResponseSchema = z
+  .object({
+    versions: z.array(
+      z
+        .object({
+          id: z.string(),
+          created_at: z.string(),
+          label: z.string().nullable().optional(),
+          description: z.string().nullable().optional(),
+          user: z.object({ handle: z.string() }).passthrough().optional(),
+        })
+        .passthrough()
+    ),
+    pagination: z.object({ next_page: z.string().optional() }).passthrough().optional(),
+  })
+  .passthrough();
+
+// files/:key/comments; client_meta is a pin on the canvas (x/y) or on a node (node_id + node_offset)
+export const CommentSchema = z
+  .object({
+    id: z.string(),
+    message: z.string(),
+    created_at: z.string(),
+    resolved_at: z.string().nullable().optional(),
+    parent_id: z.string().optional(),
+    user: z.object({ handle: z.string() }).passthrough().optional(),
+    client_meta: z
+      .object({
+        node_id: z.string().optional(),
+        node_offset: VectorSchema.optional(),
+        x: z.number().optional(),
+        y: z.number().optional(),
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+  })
+  .passthrough();
+
+export const CommentsResponseSchema = z.object({ comments: z.array(CommentSchema) }).passthrough();
+
+export type ComponentMeta = z.infer<typeof ComponentMetaSchema>;
+export type StyleMeta = z.infer<typeof StyleMetaSchema>;
+export type FigmaFile = z.infer<typeof FileResponseSchema>;
+export type FileNodesResponse = z.infer<typeof FileNodesResponseSchema>;
+export type ImagesResponse = z.infer<typeof ImagesResponseSchema>;
+export type StylesResponse = z.infer<typeof StylesResponseSchema>;
+export type VersionsResponse = z.infer<typeof VersionsResponseSchema>;
+export type FigmaApiComment = z.infer<typeof CommentSchema>;
+export type CommentsResponse = z.infer<typeof CommentsResponseSchema>;
+
+export type SchemaIssue = { path: string; message: string; node?: string };
+
+export class FigmaSchemaError extends McpError {
+  readonly endpoint: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(endpoint: string, issues: SchemaIssue[]) {
+    const shown = issues.slice(0, 10).map((i) => `  ${i.path || "(root)"}: ${i.message}${i.node ? ` (${i.node})` : ""}`);
+    if (issues.length > shown.length) shown.push(`  ... and ${issues.length - shown.length} more`);
+    super(
+      ErrorCode.InternalError,
+      [
+        `Figma API response for ${endpoint} does not match the expected shape (${issues.length} issue${issues.length === 1 ? "" : "s"}):`,
+        ...shown,
+        "Hint: the Figma API may have changed; FIGMA_VALIDATE=warn continues with the unvalidated response.",
+      ].join("\n"),
+      { endpoint, issues }
+    );
+    this.name = "FigmaSchemaError";
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+function formatPath(path: Array<string | number>): string {
+  return path.reduce<string>((out, key) => (typeof key === "number" ? `${out}[${key}]` : out ? `${out}.${key}` : key), "");
+}
+
+// The innermost node along the path, so a diagnostic says which layer is broken
+function nodeAlongPath(raw: unknown, path: Array<string | number>): string | undefined {
+  let current: any = raw;
+  let found: string | undefined;
+  for (const key of path) {
+    if (current && typeof current === "object" && typeof current.id === "string" && typeof current.type === "string") {
+      found = `${current.type} ${current.id}${typeof current.name === "string" ? ` "${current.name}"` : ""}`;
+    }
+    current = current?.[key];
+  }
+  return found;
+}
+
+/**
+ * Validate a response. Returns the parsed value; on mismatch throws FigmaSchemaError (FIGMA_VALIDATE=strict),
+ * logs and returns the raw data (warn), or skips validation entirely (off).
+ */
+export function parseFigmaResponse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown, endpoint: string): T {
+  const mode = (process.env.FIGMA_VALIDATE || "strict").toLowerCase();
+  if (mode === "off") return data as T;
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+  const issues: SchemaIssue[] = result.error.issues.map((issue) => {
+    const nodeLabel = nodeAlongPath(data, issue.path);
+    return { path: formatPath(issue.path), message: issue.message, ...(nodeLabel ? { node: nodeLabel } : {}) };
+  });
+  const error = new FigmaSchemaError(endpoint, issues);
+  if (mode !== "warn") throw error;
+  // eslint-disable-next-line no-console
+  console.error(error.message);
+  return data as T;
+}
@@ -0,0 +1,166 @@
+// Small helpers shared by the MCP server and the analysis modules.
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { nodeChildren } from "./figma_nodes.js";
+import type { FigmaNode } from "./figma_types.js";
+
+export function getFigmaToken(env: NodeJS.ProcessEnv): string {
+  const token = env.FIGMA_TOKEN || env.FIGMA_API_TOKEN || "";
+  if (!token) {
+    throw new Error(
+      "Missing Figma token. Please set FIGMA_TOKEN (or FIGMA_API_TOKEN) in the environment."
+    );
+  }
+  return token;
+}
+
+export function rgbaToHex(color: { r: number; g: number; b: number } | undefined, opacity: number = 1): {
+  rgb: string;
+  rgba: string;
+  alpha255: number;
+} {
+  const r = Math.round(((color?.r ?? 0) as number) * 255);
+  const g = Math.round(((color?.g ?? 0) as number) * 255);
+  const b = Math.round(((color?.b ?? 0) as number) * 255);
+  const a = Math.round(((opacity ?? 1) as number) * 255);
+  const toHex = (n: number) => n.toString(16).padStart(2, "0").toUpperCase();
+  const rgb = `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+  const rgba = a < 255 ? `${rgb}${toHex(a)}` : rgb;
+  return { rgb, rgba, alpha255: a };
+}
+
+export function traverse(
+  node: FigmaNode | undefined,
+  visit: (n: FigmaNode, parent?: FigmaNode) => void,
+  parent?: FigmaNode
+): void {
+  if (!node) return;
+  visit(node, parent);
+  for (const child of nodeChildren(node)) traverse(child, visit, node);
+}
+
+/**
+ * Like `traverse`, but also passes the chain of names from the starting node down to `n`
+ * (the "Page / Frame / Node" path format used by the CLI reports). Unnamed nodes fall back to their id.
+ */
+export function traverseWithPath(
+  node: FigmaNode | undefined,
+  visit: (n: FigmaNode, path: string[]) => void,
+  path: string[] = []
+): void {
+  if (!node) return;
+  const here = [...path, node.name || node.id || ""];
+  visit(node, here);
+  for (const child of nodeChildren(node)) traverseWithPath(child, visit, here);
+}
+
+// Icon components are recognised by name: generic "icon" plus common icon-set prefixes (Iconify style).
+export const ICON_NAME_HINTS = [
+  "icon",
+  "material-symbols",
+  "mdi:",
+  "majesticons:",
+  "basil:",
+  "fluent-color:",
+  "devicon:",
+  "ic:",
+  "solar:",
+  "lets-icons:",
+  "iconamoon:",
+  "fa-",
+  "feather",
+];
+
+export function isIconName(name: string): boolean {
+  const lower = (name || "").toLowerCase();
+  return ICON_NAME_HINTS.some((h) => lower.includes(h));
+}
+
+// Newer share links use `node-id=1-23`; the API reports the same node as `1:23`.
+export function normalizeNodeId(id: string): string {
+  return id.replace(/-/g, ":");
+}
+
+export function findNodeById(root: FigmaNode | undefined, id: string): FigmaNode | undefined {
+  const wanted = normalizeNodeId(id);
+  let found: FigmaNode | undefined;
+  traverse(root, (n) => {
+    if (!found && n.id === wanted) found = n;
+  });
+  return found;
+}
+
+export type ReportScope = { pageName?: string; rootNodeId?: string };
+
+export type ScopeRoot = { page: string; node: FigmaNode; parentPath: string[] };
+
+/**
+ * The subtrees a report should walk: every page, only the page named `pageName` (case-insensitive),
+ * and/or only the node `rootNodeId`. `parentPath` is the name path above each root, for report paths.
+ */
+export function scopeRoots(document: FigmaNode, scope: ReportScope = {}): ScopeRoot[] {
+  let pages = document.children ?? [];
+  if (scope.pageName) {
+    const wanted = scope.pageName.toLowerCase();
+    pages = pages.filter((p) => p.name.toLowerCase() === wanted);
+    if (pages.length === 0) throw new Error(`Page "${scope.pageName}" not found in file`);
+  }
+  const roots: ScopeRoot[] = pages.map((p) => ({ page: p.name || p.id, node: p, parentPath: [] }));
+  if (!scope.rootNodeId) return roots;
+
+  const wanted = normalizeNodeId(scope.rootNodeId);
+  for (const root of roots) {
+    let found: ScopeRoot | undefined;
+    traverseWithPath(root.node, (n: FigmaNode, path: string[]) => {
+      if (!found && n.id === wanted) found = { page: root.page, node: n, parentPath: path.slice(0, -1) };
+    });
+    if (found) return [found];
+  }
+  throw new Error(`Node ${scope.rootNodeId} not found${scope.pageName ? ` on page "${scope.pageName}"` : " in file"}`);
+}
+
+export function extractFirstUrlCandidate(input: string): string | undefined {
+  if (!input) return undefined;
+  const trimmed = input.trim();
+  // If the whole input is a URL, try that first
+  if (/^https?:\/\//i.test(trimmed)) return trimmed;
+  // Otherwise, search inside the text for the first figma URL
+  const match = trimmed.match(/https?:\/\/\S*figma\.com\S*/i);
+  return match?.[0];
+}
+
+export function parseFigmaUrl(figmaUrl: string): { fileKey: string; nodeId?: string } {
+  // Supports:
+  // https://www.figma.com/file/<fileKey>/...
+  // https://www.figma.com/design/<fileKey>/...
+  // Optional node id via ?node-id=<id> or ?node-id=<id>&...
+  // Also supports node_id variant used by some links
+  const url = new URL(figmaUrl);
+  const parts = url.pathname.split("/").filter(Boolean);
+  // e.g., ["file", "<key>", ...] or ["design", "<key>", ...]
+  if (parts.length < 2) {
+    throw new Error("Invalid Figma URL: cannot find file key in path");
+  }
+  const maybeSegment = parts[0];
+  if (maybeSegment !== "file" && maybeSegment !== "design") {
+    throw new Error("Invalid Figma URL: expected /file/<key> or /design/<key>");
+  }
+  const fileKey = parts[1] ?? "";
+  const nodeId = url.searchParams.get("node-id") || url.searchParams.get("node_id") || undefined;
+  const result: { fileKey: string; nodeId?: string } = nodeId ? { fileKey, nodeId } : { fileKey };
+  return result;
+}
+
+/** Link that opens `nodeId` in the Figma editor. */
+export function figmaNodeUrl(fileKey: string, nodeId: string): string {
+  return `https://www.figma.com/design/${encodeURIComponent(fileKey)}/?node-id=${encodeURIComponent(nodeId.replace(/:/g, "-"))}`;
+}
+
+/** Write a generated artifact, creating parent directories. Returns the absolute path written. */
+export async function writeOutputFile(path: string, content: string | Uint8Array): Promise<string> {
+  const absolute = resolve(path);
+  await mkdir(dirname(absolute), { recursive: true });
+  await writeFile(absolute, content, typeof content === "string" ? "utf8" : undefined);
+  return absolute;
+}
@@ -0,0 +1,216 @@
+// File-level reports shared by the MCP tools and the figma-mcp CLI: the analyze report (pages, color
+// palette, fill styles and per-view stats), the component/style inventory, and component usage per page.
+// All of them accept a ReportScope (page name and/or root node) to narrow what gets walked.
+
+import { getFile } from "./figma_client.js";
+import { isNodeType, nodeChildren, nodeFills, nodeSize, solidFills } from "./figma_nodes.js";
+import type { FigmaFile, FigmaNode } from "./figma_types.js";
+import { rgbaToHex, scopeRoots, traverse, type ReportScope, type ScopeRoot } from "./figma_utils.js";
+
+const VIEW_TYPES = ["FRAME", "COMPONENT", "INSTANCE", "GROUP"];
+
+/** Whether a top-level node counts as a view (screen) in the per-view reports. */
+export function isViewNode(node: FigmaNode): boolean {
+  return VIEW_TYPES.includes(node.type);
+}
+
+/** The top-level nodes of a scope root (the scoped node itself when `rootNodeId` is set); views are among them. */
+export function topLevelNodes(root: ScopeRoot, scope: ReportScope = {}): FigmaNode[] {
+  return scope.rootNodeId ? [root.node] : nodeChildren(root.node);
+}
+
+export type ColorCount = { hex: string; count: number };
+
+export type ViewSummary = {
+  page: string;
+  name: string;
+  type: string;
+  width?: number;
+  height?: number;
+  totalNodes: number;
+  textCount: number;
+  vectorCount: number;
+  instanceCount: number;
+  imageFillCount: number;
+  colors: string[];
+};
+
+function countColors(root: FigmaNode, counts: Map<string, number>): void {
+  traverse(root, (n: FigmaNode) => {
+    for (const paint of solidFills(n)) {
+      const { rgba } = rgbaToHex(paint.color, paint.opacity ?? n.opacity ?? 1);
+      counts.set(rgba, (counts.get(rgba) ?? 0) + 1);
+    }
+  });
+}
+
+function topColors(counts: Map<string, number>, limit: number): ColorCount[] {
+  return Array.from(counts.entries())
+    .map(([hex, count]) => ({ hex, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+}
+
+function summarizeView(page: string, view: FigmaNode): ViewSummary {
+  let totalNodes = 0;
+  let textCount = 0;
+  let vectorCount = 0;
+  let instanceCount = 0;
+  let imageFillCount = 0;
+  const colors = new Map<string, number>();
+  traverse(view, (n: FigmaNode) => {
+    totalNodes += 1;
+    if (n.type === "TEXT") textCount += 1;
+    if (n.type === "VECTOR") vectorCount += 1;
+    if (n.type === "INSTANCE") instanceCount += 1;
+    imageFillCount += nodeFills(n).filter((p) => p.type === "IMAGE").length;
+  });
+  countColors(view, colors);
+  const size = nodeSize(view);
+  return {
+    page,
+    name: view.name || view.id,
+    type: view.type,
+    ...(size ? { width: size.width, height: size.height } : {}),
+    totalNodes,
+    textCount,
+    vectorCount,
+    instanceCount,
+    imageFillCount,
+    colors: topColors(colors, 8).map((c) => c.hex),
+  };
+}
+
+/**
+ * Pages, the 50 most used solid colors, FILL style names, and stats per view (the top-level frames of
+ * each page, or the scoped node itself when `rootNodeId` is set).
+ */
+export function analyzeFile(file: FigmaFile, scope: ReportScope = {}) {
+  const roots = scopeRoots(file.document, scope);
+  const colors = new Map<string, number>();
+  const views: ViewSummary[] = [];
+  for (const root of roots) {
+    countColors(root.node, colors);
+    for (const view of topLevelNodes(root, scope)) {
+      if (isViewNode(view)) views.push(summarizeView(root.page, view));
+    }
+  }
+  return {
+    fileName: file.name,
+    pages: Array.from(new Set(roots.map((r) => r.page))).filter(Boolean),
+    palette: topColors(colors, 50),
+    fillStyles: Object.values(file.styles)
+      .filter((s) => s.styleType === "FILL" && s.name.length > 0)
+      .map((s) => s.name),
+    views,
+  };
+}
+
+export type AnalyzeReport = ReturnType<typeof analyzeFile> & { fileKey: string };
+
+/** Plain-text rendering used by the figma_analyze_* tools. */
+export function renderAnalyzeText(report: AnalyzeReport, options: { views?: boolean } = {}): string {
+  const lines = ["=== Figma Report ===", `File name: ${report.fileName}`, `File key: ${report.fileKey}`, "", "Pages:"];
+  lines.push(...(report.pages.length > 0 ? report.pages.map((p) => `- ${p}`) : ["- (none)"]));
+  lines.push("", "Color palette (top 50 by usage):");
+  lines.push(...(report.palette.length > 0 ? report.palette.map((c) => `- ${c.hex} (used ${c.count}x)`) : ["- (none)"]));
+  if (report.fillStyles.length > 0) lines.push("", "Color styles (FILL):", ...report.fillStyles.map((n) => `- ${n}`));
+  if (options.views) {
+    lines.push("", "Views:");
+    if (report.views.length === 0) lines.push("- (none)");
+    for (const v of report.views) {
+      const size = v.width !== undefined && v.height !== undefined ? ` ${v.width}x${v.height}` : "";
+      lines.push(`- ${v.page} / ${v.name} [${v.type}]${size}: ${v.totalNodes} nodes, ${v.textCount} text, ${v.vectorCount} vector, ${v.instanceCount} instances, ${v.imageFillCount} image fills`);
+      if (v.colors.length > 0) lines.push(`  colors: ${v.colors.join(", ")}`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+export async function runAnalyzeReport(fileKey: string, token: string, scope: ReportScope = {}): Promise<AnalyzeReport> {
+  const file = await getFile(fileKey, token);
+  const { fileName, ...rest } = analyzeFile(file, scope);
+  return { fileName, fileKey, ...rest };
+}
+
+function instanceCounts(root: FigmaNode, counts = new Map<string, number>()): Map<string, number> {
+  traverse(root, (n: FigmaNode) => {
+    if (isNodeType(n, "INSTANCE")) counts.set(n.componentId, (counts.get(n.componentId) ?? 0) + 1);
+  });
+  return counts;
+}
+
+/** Components, component sets and styles from the file metadata, with instance counts inside the scope. */
+export function buildInventory(file: FigmaFile, scope: ReportScope = {}) {
+  const counts = new Map<string, number>();
+  for (const root of scopeRoots(file.document, scope)) instanceCounts(root.node, counts);
+  const components = Object.entries(file.components).map(([nodeId, c]) => ({
+    nodeId,
+    key: c.key,
+    name: c.name,
+    description: c.description,
+    componentSetId: c.componentSetId,
+    documentationLinks: c.documentationLinks,
+    instanceCount: counts.get(nodeId) ?? 0,
+  }));
+  const componentSets = Object.entries(file.componentSets).map(([nodeId, s]) => ({
+    nodeId,
+    key: s.key,
+    name: s.name,
+    description: s.description,
+    documentationLinks: s.documentationLinks,
+  }));
+  const styles = Object.entries(file.styles).map(([styleId, s]) => ({
+    styleId,
+    name: s.name,
+    styleType: s.styleType,
+    description: s.description,
+    key: s.key,
+  }));
+  return {
+    fileName: file.name,
+    counts: { components: components.length, componentSets: componentSets.length, styles: styles.length },
+    components,
+    componentSets,
+    styles,
+  };
+}
+
+export async function runInventory(fileKey: string, token: string, scope: ReportScope = {}) {
+  const file = await getFile(fileKey, token);
+  const { fileName, ...rest } = buildInventory(file, scope);
+  return { fileName, fileKey, ...rest };
+}
+
+/** Which components are instantiated on each page, most used first. */
+export function buildComponentUsage(file: FigmaFile, scope: ReportScope = {}) {
+  const meta = file.components;
+  const pages = scopeRoots(file.document, scope).map((root) => {
+    const componentsUsed = Array.from(instanceCounts(root.node).entries())
+      .map(([componentId, count]) => ({
+        componentId,
+        name: meta[componentId]?.name ?? "(unknown component)",
+        key: meta[componentId]?.key,
+        count,
+      }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+    return { pageName: root.page, componentsUsed };
+  });
+  return {
+    fileName: file.name,
+    pages,
+    allComponents: Object.entries(meta).map(([nodeId, c]) => ({
+      nodeId,
+      key: c.key,
+      name: c.name,
+      description: c.description,
+      componentSetId: c.componentSetId,
+    })),
+  };
+}
+
+export async function runComponentUsage(fileKey: string, token: string, scope: ReportScope = {}) {
+  const file = await getFile(fileKey, token);
+  const { fileName, ...rest } = buildComponentUsage(file, scope);
+  return { fileName, fileKey, ...rest };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { estimateTextWidth, fontMetrics, wrapText } from "./font_metrics.js";
+
+const inter = { fontFamily: "Inter", fontSize: 10 };
+
+describe("fontMetrics", () => {
+  it("looks families up without case, spaces or dashes and falls back to a generic sans", () => {
+    expect(fontMetrics("SF Pro Text").known).toBe(true);
+    expect(fontMetrics("roboto-mono").metrics).toEqual({ lower: 0.6, upper: 0.6, digit: 0.6, space: 0.6 });
+    expect(fontMetrics("Comic Sans").known).toBe(false);
+  });
+});
+
+describe("estimateTextWidth", () => {
+  it("sums per-character widths at the font size", () => {
+    expect(estimateTextWidth("abc", inter)).toBeCloseTo(15.9);
+    expect(estimateTextWidth("ABC", inter)).toBeCloseTo(20.4);
+    expect(estimateTextWidth("il", inter)).toBeLessThan(estimateTextWidth("mw", inter));
+  });
+
+  it("widens bold text and adds letter spacing per character", () => {
+    expect(estimateTextWidth("abc", { ...inter, fontWeight: 700 })).toBeCloseTo(15.9 * 1.075);
+    expect(estimateTextWidth("abc", { ...inter, letterSpacing: 1 })).toBeCloseTo(18.9);
+  });
+
+  it("measures text after its text case is applied", () => {
+    expect(estimateTextWidth("abc", { ...inter, textCase: "UPPER" })).toBeCloseTo(estimateTextWidth("ABC", inter));
+  });
+});
+
+describe("wrapText", () => {
+  // Each "aaaa" is 21.2px wide and a space 2.6px
+  it("wraps greedily at spaces", () => {
+    expect(wrapText("aaaa aaaa aaaa", 50, inter)).toEqual({ lines: 2, widestWord: expect.closeTo(21.2) });
+    expect(wrapText("aaaa aaaa aaaa", 100, inter).lines).toBe(1);
+  });
+
+  it("keeps explicit line breaks", () => {
+    expect(wrapText("aaaa\naaaa", 100, inter).lines).toBe(2);
+  });
+
+  it("breaks a word wider than the box across lines", () => {
+    expect(wrapText("aaaaaaaaaa", 20, inter).lines).toBe(3);
+  });
+
+  it("stays finite for a zero-width box", () => {
+    expect(wrapText("aaaa aaaa", 0, inter).lines).toBe(2);
+  });
+});
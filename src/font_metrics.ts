@@ -0,0 +1,124 @@
+// Average glyph widths for common UI fonts, used to estimate how wide a string renders without having the
+// font files. Widths are in em for regular weight: average lowercase letter, uppercase letter, digit and
+// space. Narrow (i, l, t, ...) and wide (m, w, ...) letters are scaled from those averages, so estimates
+// are good to a few percent on running text, not per glyph.
+
+export type FontMetrics = { lower: number; upper: number; digit: number; space: number };
+
+export type TextFont = {
+  fontFamily: string;
+  fontSize: number;
+  fontWeight?: number | undefined;
+  letterSpacing?: number | undefined;
+  textCase?: string | undefined;
+};
+
+const SANS: FontMetrics = { lower: 0.53, upper: 0.67, digit: 0.58, space: 0.26 };
+const MONO: FontMetrics = { lower: 0.6, upper: 0.6, digit: 0.6, space: 0.6 };
+
+// Keys are lowercase family names without spaces
+const FONT_METRICS: Record<string, FontMetrics> = {
+  inter: { lower: 0.53, upper: 0.68, digit: 0.62, space: 0.26 },
+  roboto: { lower: 0.5, upper: 0.65, digit: 0.56, space: 0.25 },
+  sfpro: { lower: 0.51, upper: 0.66, digit: 0.58, space: 0.25 },
+  sfprotext: { lower: 0.51, upper: 0.66, digit: 0.58, space: 0.25 },
+  sfprodisplay: { lower: 0.5, upper: 0.65, digit: 0.57, space: 0.24 },
+  helvetica: { lower: 0.5, upper: 0.67, digit: 0.56, space: 0.28 },
+  helveticaneue: { lower: 0.5, upper: 0.67, digit: 0.56, space: 0.28 },
+  arial: { lower: 0.5, upper: 0.67, digit: 0.56, space: 0.28 },
+  opensans: { lower: 0.53, upper: 0.66, digit: 0.57, space: 0.26 },
+  lato: { lower: 0.49, upper: 0.63, digit: 0.58, space: 0.19 },
+  montserrat: { lower: 0.58, upper: 0.72, digit: 0.65, space: 0.26 },
+  poppins: { lower: 0.57, upper: 0.72, digit: 0.64, space: 0.26 },
+  sourcesanspro: { lower: 0.46, upper: 0.59, digit: 0.5, space: 0.2 },
+  sourcesans3: { lower: 0.46, upper: 0.59, digit: 0.5, space: 0.2 },
+  notosans: { lower: 0.53, upper: 0.66, digit: 0.57, space: 0.26 },
+  nunito: { lower: 0.51, upper: 0.66, digit: 0.57, space: 0.26 },
+  nunitosans: { lower: 0.5, upper: 0.65, digit: 0.56, space: 0.25 },
+  dmsans: { lower: 0.52, upper: 0.67, digit: 0.58, space: 0.25 },
+  manrope: { lower: 0.54, upper: 0.69, digit: 0.6, space: 0.25 },
+  worksans: { lower: 0.54, upper: 0.67, digit: 0.58, space: 0.26 },
+  ibmplexsans: { lower: 0.51, upper: 0.64, digit: 0.6, space: 0.25 },
+  raleway: { lower: 0.53, upper: 0.69, digit: 0.6, space: 0.25 },
+  ubuntu: { lower: 0.51, upper: 0.64, digit: 0.56, space: 0.23 },
+  georgia: { lower: 0.5, upper: 0.7, digit: 0.58, space: 0.24 },
+  timesnewroman: { lower: 0.44, upper: 0.66, digit: 0.5, space: 0.25 },
+  robotomono: MONO,
+  sfmono: MONO,
+  jetbrainsmono: MONO,
+  menlo: MONO,
+  couriernew: MONO,
+};
+
+const NARROW = new Set("fijlrt.,:;'!|()[]");
+const WIDE = new Set("mw");
+const WIDE_UPPER = new Set("MW");
+
+/** Metrics for `fontFamily`; unknown families get a generic sans-serif (`known: false`). */
+export function fontMetrics(fontFamily: string): { metrics: FontMetrics; known: boolean } {
+  const metrics = FONT_METRICS[fontFamily.toLowerCase().replace(/[\s_-]+/g, "")];
+  return metrics ? { metrics, known: true } : { metrics: SANS, known: false };
+}
+
+// Width of one character in em. Accents are ignored, CJK and other wide scripts count a full em.
+function charWidth(ch: string, m: FontMetrics): number {
+  if (ch === " " || ch === "\u00a0") return m.space;
+  if (/[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60]/.test(ch)) return 1;
+  const base = ch.normalize("NFD").replace(/[\u0300-\u036f]/g, "") || ch;
+  if (base === "\u0131") return m.lower * 0.55;
+  if (/\d/.test(base)) return m.digit;
+  if (NARROW.has(base)) return m.lower * 0.55;
+  if (WIDE.has(base)) return m.lower * 1.5;
+  if (WIDE_UPPER.has(base)) return m.upper * 1.3;
+  if (base === "I") return m.upper * 0.45;
+  if (base !== base.toLowerCase()) return m.upper;
+  return m.lower;
+}
+
+function applyTextCase(text: string, textCase: string | undefined): string {
+  if (textCase === "UPPER") return text.toUpperCase();
+  if (textCase === "LOWER") return text.toLowerCase();
+  if (textCase === "TITLE") return text.replace(/(^|\s)(\S)/g, (_, space: string, first: string) => space + first.toUpperCase());
+  return text;
+}
+
+/** Estimated rendered width in px of a single line of `text`. Bolder weights run wider. */
+export function estimateTextWidth(text: string, font: TextFont): number {
+  const { metrics } = fontMetrics(font.fontFamily);
+  const chars = Array.from(applyTextCase(text, font.textCase));
+  const weightScale = 1 + ((font.fontWeight ?? 400) - 400) * 0.00025;
+  const ems = chars.reduce((sum, ch) => sum + charWidth(ch, metrics), 0);
+  return ems * font.fontSize * weightScale + (font.letterSpacing ?? 0) * chars.length;
+}
+
+/**
+ * Lines `text` takes when wrapped at `maxWidth` (greedy, at spaces; explicit line breaks kept), and the widest
+ * single word, which cannot wrap and overflows the box on its own when it is wider than `maxWidth`.
+ * A `maxWidth` of 0 or less puts every word on its own line without breaking it further.
+ */
+export function wrapText(text: string, maxWidth: number, font: TextFont): { lines: number; widestWord: number } {
+  let lines = 0;
+  let widestWord = 0;
+  const spaceWidth = estimateTextWidth(" ", font);
+  for (const paragraph of text.split(/\r?\n/)) {
+    lines += 1;
+    let lineWidth = 0;
+    for (const word of paragraph.split(/ +/).filter(Boolean)) {
+      const width = estimateTextWidth(word, font);
+      widestWord = Math.max(widestWord, width);
+      if (lineWidth > 0 && lineWidth + spaceWidth + width > maxWidth) {
+        lines += 1;
+        lineWidth = width;
+      } else {
+        lineWidth += (lineWidth > 0 ? spaceWidth : 0) + width;
+      }
+      // A word wider than the box is broken across lines by the renderer
+      if (maxWidth > 0 && width > maxWidth) {
+        const extra = Math.ceil(width / maxWidth) - 1;
+        lines += extra;
+        lineWidth = width - extra * maxWidth;
+      }
+    }
+  }
+  return { lines, widestWord };
+}
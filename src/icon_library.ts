@@ -0,0 +1,258 @@
+// Icon library extraction: every icon COMPONENT in the file (recognised by name hints on the component,
+// its component set, page or frame) is exported as SVG and normalised: viewBox kept, width/height dropped,
+// Figma's frame clip paths removed, unreferenced ids stripped (referenced ones renamed per icon), and
+// single-color icons switched to currentColor. Writes the SVGs, an icons.json manifest and one React
+// component per icon (plus types.ts and index.ts) so the icon package can be regenerated from Figma.
+
+import { join } from "node:path";
+import { downloadAsset, fetchImageUrls } from "./asset_export.js";
+import { getFile } from "./figma_client.js";
+import { nodeChildren, nodeSize } from "./figma_nodes.js";
+import type { FigmaFile, FigmaNode } from "./figma_types.js";
+import { isIconName, traverseWithPath, writeOutputFile } from "./figma_utils.js";
+import { componentNameFor } from "./react_codegen.js";
+
+export type IconSource = {
+  componentId: string;
+  componentKey?: string;
+  figmaName: string;
+  componentName: string;
+  slug: string;
+  width: number;
+  height: number;
+};
+
+export type NormalizedSvg = {
+  svg: string;
+  viewBox: string;
+  inner: string;
+  rootAttributes: Record<string, string>;
+  multicolor: boolean;
+};
+
+export type IconExtractionOptions = {
+  outputDir: string;
+  currentColor?: boolean;
+};
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+function slugFor(name: string): string {
+  return (
+    name
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map((w) => w.toLowerCase())
+      .join("-") || "icon"
+  );
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:-]+)="([^"]*)"/g)) attrs[match[1] as string] = match[2] as string;
+  return attrs;
+}
+
+/** Collect icon components from the document, with stable, unique React component names. */
+export function collectIconSources(file: FigmaFile): IconSource[] {
+  const found: Array<Omit<IconSource, "componentName" | "slug">> = [];
+  for (const page of nodeChildren(file.document)) {
+    traverseWithPath(page, (n: FigmaNode, path: string[]) => {
+      if (n.type !== "COMPONENT") return;
+      const meta = file.components[n.id];
+      const set = meta?.componentSetId ? file.componentSets[meta.componentSetId] : undefined;
+      const figmaName = set?.name ? `${set.name} ${n.name}` : n.name || n.id;
+      if (!isIconName(figmaName) && !path.slice(0, -1).some((p) => isIconName(p))) return;
+      const size = nodeSize(n);
+      found.push({
+        componentId: n.id,
+        ...(meta?.key ? { componentKey: meta.key } : {}),
+        figmaName,
+        width: size?.width ?? 24,
+        height: size?.height ?? 24,
+      });
+    });
+  }
+
+  found.sort((a, b) => a.figmaName.localeCompare(b.figmaName) || a.componentId.localeCompare(b.componentId));
+  const usedNames = new Set<string>();
+  return found.map((icon) => {
+    const pascal = componentNameFor(icon.figmaName);
+    const base = pascal.endsWith("Icon") ? pascal : `${pascal}Icon`;
+    let componentName = base;
+    for (let i = 2; usedNames.has(componentName); i++) componentName = `${base}${i}`;
+    usedNames.add(componentName);
+    return { ...icon, componentName, slug: slugFor(componentName.replace(/Icon$/, "")) };
+  });
+}
+
+/** Normalise a Figma SVG export. `idPrefix` keeps the remaining (referenced) ids unique across icons. */
+export function normalizeSvg(raw: string, idPrefix: string, options: { currentColor?: boolean } = {}): NormalizedSvg {
+  const source = raw.replace(/<\?xml[^>]*\?>/g, "").replace(/<!--[\s\S]*?-->/g, "");
+  const open = source.match(/<svg\b([^>]*)>/);
+  const close = source.lastIndexOf("</svg>");
+  if (!open || open.index === undefined || close < 0) throw new Error("Not an SVG document");
+  const rootAttributes = parseAttributes(open[1] ?? "");
+  let inner = source.slice(open.index + open[0].length, close);
+
+  const width = Number.parseFloat(rootAttributes.width ?? "");
+  const height = Number.parseFloat(rootAttributes.height ?? "");
+  const viewBox = rootAttributes.viewBox ?? (width > 0 && height > 0 ? `0 0 ${width} ${height}` : "0 0 24 24");
+
+  // Figma wraps frame contents in a clip path matching the frame bounds; the viewBox already clips
+  inner = inner
+    .replace(/<clipPath\b[\s\S]*?<\/clipPath>/g, "")
+    .replace(/\sclip-path="url\(#[^)]*\)"/g, "")
+    .replace(/<defs>\s*<\/defs>/g, "");
+
+  const colors = new Set<string>();
+  for (const match of inner.matchAll(/\s(?:fill|stroke)="([^"]+)"/g)) {
+    const value = (match[1] as string).trim();
+    if (value !== "none" && value !== "currentColor" && !value.startsWith("url(")) colors.add(value.toLowerCase());
+  }
+  const hasPaintServers = /<(linearGradient|radialGradient|pattern|image)\b/.test(inner);
+  const multicolor = colors.size > 1 || hasPaintServers;
+  if (options.currentColor !== false && !multicolor) {
+    inner = inner.replace(/\s(fill|stroke)="(?!none|url\()[^"]+"/g, ' $1="currentColor"');
+  }
+
+  const referenced = new Set<string>();
+  for (const match of inner.matchAll(/url\(#([^)]+)\)|href="#([^"]+)"/g)) referenced.add((match[1] ?? match[2]) as string);
+  const renamed = new Map<string, string>();
+  for (const id of referenced) renamed.set(id, `${idPrefix}-${renamed.size + 1}`);
+  inner = inner
+    .replace(/\sid="([^"]*)"/g, (_m, id: string) => (renamed.has(id) ? ` id="${renamed.get(id)}"` : ""))
+    .replace(/url\(#([^)]+)\)/g, (m, id: string) => (renamed.has(id) ? `url(#${renamed.get(id)})` : m))
+    .replace(/href="#([^"]+)"/g, (m, id: string) => (renamed.has(id) ? `href="#${renamed.get(id)}"` : m))
+    .replace(/>\s+</g, "><")
+    .trim();
+
+  const fill = rootAttributes.fill ? ` fill="${rootAttributes.fill}"` : "";
+  const svg = `<svg xmlns="${SVG_NS}" viewBox="${viewBox}"${fill}>${inner}</svg>\n`;
+  return { svg, viewBox, inner, rootAttributes, multicolor };
+}
+
+function jsxAttributeName(name: string): string {
+  if (name === "class") return "className";
+  if (name.includes(":")) {
+    const [ns, local] = name.split(":");
+    return `${ns}${(local ?? "").charAt(0).toUpperCase()}${(local ?? "").slice(1)}`;
+  }
+  return name.replace(/-([a-z])/g, (_m, c: string) => c.toUpperCase());
+}
+
+function jsxStyle(style: string): string {
+  const entries = style
+    .split(";")
+    .map((d) => d.trim())
+    .filter(Boolean)
+    .map((d) => {
+      const colon = d.indexOf(":");
+      const key = jsxAttributeName(d.slice(0, colon).trim());
+      return `${key}: ${JSON.stringify(d.slice(colon + 1).trim())}`;
+    });
+  return `{{ ${entries.join(", ")} }}`;
+}
+
+/** SVG markup → JSX (camelCased attributes, style strings as objects), one tag per line. */
+export function svgToJsx(markup: string, indent: string): string[] {
+  const converted = markup.replace(/<(\/?)([\w:-]+)([^>]*?)(\/?)>/g, (_m, slash: string, tag: string, attrs: string, selfClose: string) => {
+    const jsxAttrs = attrs.replace(/\s([\w:-]+)="([^"]*)"/g, (_a, name: string, value: string) =>
+      name === "style" ? ` style=${jsxStyle(value)}` : ` ${jsxAttributeName(name)}="${value}"`
+    );
+    return `<${slash}${tag}${jsxAttrs}${selfClose ? " /" : ""}>`;
+  });
+  return converted
+    .split(/(?<=>)(?=<)/)
+    .filter(Boolean)
+    .map((line) => `${indent}${line}`);
+}
+
+export function renderIconComponent(icon: IconSource, normalized: NormalizedSvg): string {
+  const size = Number(normalized.viewBox.split(/\s+/)[2]) || icon.width;
+  const fill = normalized.rootAttributes.fill ? [`      fill="${normalized.rootAttributes.fill}"`] : [];
+  return [
+    `// Generated from Figma component "${icon.figmaName}" (${icon.componentId}). Re-run the icon export instead of editing.`,
+    'import type { IconProps } from "./types";',
+    "",
+    `export function ${icon.componentName}({ size = ${size}, title, ...props }: IconProps) {`,
+    "  return (",
+    "    <svg",
+    `      xmlns="${SVG_NS}"`,
+    `      viewBox="${normalized.viewBox}"`,
+    "      width={size}",
+    "      height={size}",
+    ...fill,
+    '      role={title ? "img" : undefined}',
+    "      aria-hidden={title ? undefined : true}",
+    "      {...props}",
+    "    >",
+    "      {title ? <title>{title}</title> : null}",
+    ...svgToJsx(normalized.inner, "      "),
+    "    </svg>",
+    "  );",
+    "}",
+    "",
+    `export default ${icon.componentName};`,
+    "",
+  ].join("\n");
+}
+
+const ICON_TYPES = [
+  'import type { SVGProps } from "react";',
+  "",
+  'export type IconProps = Omit<SVGProps<SVGSVGElement>, "ref"> & {',
+  "  size?: number | string;",
+  "  title?: string;",
+  "};",
+  "",
+].join("\n");
+
+/** Export, normalise and write every icon component: svg/, react/ and icons.json under `outputDir`. */
+export async function extractIconLibrary(fileKey: string, token: string, options: IconExtractionOptions) {
+  const file = await getFile(fileKey, token);
+  const icons = collectIconSources(file);
+  const urls = await fetchImageUrls(
+    fileKey,
+    token,
+    icons.map((i) => i.componentId),
+    { format: "svg", svg_include_id: "true", svg_outline_text: "true", svg_simplify_stroke: "true" }
+  );
+
+  const manifest: Array<Record<string, unknown>> = [];
+  const failed: Array<{ componentId: string; figmaName: string; reason: string }> = [];
+  for (const icon of icons) {
+    const url = urls.get(icon.componentId);
+    try {
+      if (!url) throw new Error("Figma returned no SVG");
+      const raw = new TextDecoder().decode(await downloadAsset(url));
+      const normalized = normalizeSvg(raw, icon.slug, { currentColor: options.currentColor ?? true });
+      await writeOutputFile(join(options.outputDir, "svg", `${icon.slug}.svg`), normalized.svg);
+      await writeOutputFile(join(options.outputDir, "react", `${icon.componentName}.tsx`), renderIconComponent(icon, normalized));
+      manifest.push({
+        name: icon.componentName,
+        slug: icon.slug,
+        figmaName: icon.figmaName,
+        componentId: icon.componentId,
+        ...(icon.componentKey ? { componentKey: icon.componentKey } : {}),
+        viewBox: normalized.viewBox,
+        multicolor: normalized.multicolor,
+        svg: `svg/${icon.slug}.svg`,
+        component: `react/${icon.componentName}.tsx`,
+      });
+    } catch (err) {
+      failed.push({ componentId: icon.componentId, figmaName: icon.figmaName, reason: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  const exported = manifest.map((m) => String(m.name));
+  const index = [...exported.map((name) => `export { ${name} } from "./${name}";`), 'export type { IconProps } from "./types";', ""].join("\n");
+  await writeOutputFile(join(options.outputDir, "react", "types.ts"), ICON_TYPES);
+  await writeOutputFile(join(options.outputDir, "react", "index.ts"), index);
+  const manifestPath = await writeOutputFile(
+    join(options.outputDir, "icons.json"),
+    `${JSON.stringify({ fileKey, fileName: file.name, icons: manifest }, null, 2)}\n`
+  );
+  return { fileName: file.name, fileKey, iconCount: icons.length, written: manifest.length, manifestPath, failed };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { FileResponseSchema, parseFigmaResponse } from "./figma_types.js";
+import { parseSelector, queryNodes } from "./node_query.js";
+
+const file = parseFigmaResponse(
+  FileResponseSchema,
+  {
+    name: "Demo",
+    components: { "9:1": { key: "k1", name: "Button/Primary" } },
+    document: {
+      id: "0:0",
+      name: "Document",
+      type: "DOCUMENT",
+      children: [
+        {
+          id: "0:1",
+          name: "Home",
+          type: "CANVAS",
+          children: [
+            {
+              id: "1:1",
+              name: "Hero",
+              type: "FRAME",
+              absoluteBoundingBox: { x: 0, y: 0, width: 1440, height: 600 },
+              children: [
+                { id: "1:2", name: "Title", type: "TEXT", characters: "Welcome", style: { fontFamily: "Inter", fontSize: 48 } },
+                { id: "1:3", name: "Fine print", type: "TEXT", characters: "Terms apply", style: { fontFamily: "Inter", fontSize: 10 } },
+                { id: "1:4", name: "CTA", type: "INSTANCE", componentId: "9:1" },
+              ],
+            },
+            { id: "1:5", name: "Empty card", type: "FRAME", children: [{ id: "1:6", name: "Bg", type: "RECTANGLE" }] },
+          ],
+        },
+        {
+          id: "0:2",
+          name: "Settings",
+          type: "CANVAS",
+          children: [{ id: "2:1", name: "Save button", type: "FRAME", children: [{ id: "2:2", name: "Label", type: "TEXT", characters: "Save" }] }],
+        },
+      ],
+    },
+  },
+  "files/test"
+);
+
+const ids = (selector: string, options = {}) => queryNodes(file, "test", selector, options).matches.map((m) => m.id);
+
+describe("parseSelector", () => {
+  it("splits a list into complex selectors with their combinators", () => {
+    const [first, second] = parseSelector('PAGE[name="Home"] FRAME > TEXT, INSTANCE');
+    expect(first?.map((s) => [s.combinator, s.compound.type])).toEqual([
+      [" ", "PAGE"],
+      [" ", "FRAME"],
+      [">", "TEXT"],
+    ]);
+    expect(second?.map((s) => s.compound.type)).toEqual(["INSTANCE"]);
+  });
+
+  it("reads attribute operators, quoted values and the i flag", () => {
+    const [selector] = parseSelector('TEXT[fontSize<=12][name*="button" i]');
+    expect(selector?.[0]?.compound.attributes).toEqual([
+      { name: "fontSize", op: "<=", value: "12", caseInsensitive: false },
+      { name: "name", op: "*=", value: "button", caseInsensitive: true },
+    ]);
+  });
+
+  it("nests :has and :not selectors", () => {
+    const [selector] = parseSelector("FRAME:not(:has(TEXT))");
+    const compound = selector?.[0]?.compound;
+    expect(compound?.not).toHaveLength(1);
+    expect(compound?.not[0]?.[0]?.compound.has).toHaveLength(1);
+  });
+
+  it("reports syntax errors with their position", () => {
+    expect(() => parseSelector("")).toThrow("Empty selector");
+    expect(() => parseSelector("FRAME[name")).toThrow(/position/);
+    expect(() => parseSelector("FRAME:first-child")).toThrow("unknown pseudo-class :first-child");
+  });
+});
+
+describe("queryNodes", () => {
+  it("matches descendant and child combinators", () => {
+    expect(ids("PAGE FRAME > TEXT")).toEqual(["1:2", "1:3", "2:2"]);
+    expect(ids('PAGE[name="Home"] TEXT')).toEqual(["1:2", "1:3"]);
+  });
+
+  it("compares numbers and component names", () => {
+    expect(ids("TEXT[fontSize<12]")).toEqual(["1:3"]);
+    expect(ids("FRAME[width>=1440]")).toEqual(["1:1"]);
+    expect(ids('INSTANCE[component^="Button/"]')).toEqual(["1:4"]);
+  });
+
+  it("supports :has, :not and case-insensitive matches", () => {
+    expect(ids("FRAME:not(:has(TEXT))")).toEqual(["1:5"]);
+    expect(ids("FRAME:has(> INSTANCE)")).toEqual(["1:1"]);
+    expect(ids('[name*="BUTTON" i]')).toEqual(["2:1"]);
+  });
+
+  it("limits matches to the scope and reports truncation", () => {
+    expect(ids("TEXT", { pageName: "settings" })).toEqual(["2:2"]);
+    expect(ids("TEXT", { rootNodeId: "1-1" })).toEqual(["1:2", "1:3"]);
+    const limited = queryNodes(file, "test", "TEXT", { limit: 1 });
+    expect(limited).toMatchObject({ count: 3, truncated: true });
+  });
+});
@@ -0,0 +1,370 @@
+// CSS-like selectors over the document tree, so structural questions don't need a bespoke script.
+//
+//   PAGE[name="Home"] FRAME > INSTANCE[component^="Button/"]    descendant (space) and child (>) combinators
+//   TEXT[fontSize<12], FRAME[width>=1440]                        numeric comparisons: < <= > >=
+//   :has(IMAGE), FRAME:not(:has(TEXT)), :has(> RECTANGLE)         :has (optionally > for direct children), :not
+//   [name*="button" i]                                           = != ^= $= *= and an i flag for case-insensitive
+//
+// Types are node types (FRAME, TEXT, INSTANCE, ...) or * ; PAGE is CANVAS and IMAGE is any node with a visible
+// image fill. Attributes: name, id, type, component / componentSet (INSTANCE and COMPONENT), text, fontFamily,
+// fontSize, fontWeight, lineHeight, letterSpacing, width, height, fill / stroke (solid hex), style (linked style
+// names), visible, and any other primitive node field by its API name (layoutMode, cornerRadius, opacity, ...).
+
+import { getFile } from "./figma_client.js";
+import { isNodeType, nodeChildren, nodeFills, nodeSize, solidFills, solidStrokes } from "./figma_nodes.js";
+import type { ComponentMeta, FigmaFile, FigmaNode, StyleMeta } from "./figma_types.js";
+import { figmaNodeUrl, normalizeNodeId, rgbaToHex, type ReportScope } from "./figma_utils.js";
+
+type AttributeOp = "=" | "!=" | "^=" | "$=" | "*=" | "<" | "<=" | ">" | ">=";
+
+type AttributeTest = { name: string; op?: AttributeOp; value?: string; caseInsensitive: boolean };
+
+type Compound = {
+  // Upper-cased node type, virtual type (PAGE, IMAGE), or undefined for * / no type
+  type?: string;
+  // Stands for the node a :has() is evaluated on
+  scope?: boolean;
+  attributes: AttributeTest[];
+  has: Selector[];
+  not: Selector[];
+};
+
+type Step = { combinator: " " | ">"; compound: Compound };
+
+// One complex selector; the first step's combinator is unused
+type Selector = Step[];
+
+export type QueryMatch = { id: string; name: string; type: string; page: string; path: string; link: string };
+
+type MatchContext = {
+  components: Record<string, ComponentMeta>;
+  componentSets: Record<string, ComponentMeta>;
+  styles: Record<string, StyleMeta>;
+  scope?: FigmaNode;
+};
+
+const ATTRIBUTE_OPS: AttributeOp[] = ["!=", "^=", "$=", "*=", "<=", ">=", "=", "<", ">"];
+
+class SelectorParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): Selector[] {
+    const list = this.selectorList();
+    this.skipSpace();
+    if (this.pos < this.source.length) this.fail(`unexpected "${this.source[this.pos]}"`);
+    return list;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`Invalid selector "${this.source}": ${message} at position ${this.pos + 1}`);
+  }
+
+  private peek(): string {
+    return this.source[this.pos] ?? "";
+  }
+
+  private skipSpace(): boolean {
+    const start = this.pos;
+    while (/\s/.test(this.peek())) this.pos += 1;
+    return this.pos > start;
+  }
+
+  private expect(char: string): void {
+    if (this.peek() !== char) this.fail(`expected "${char}"`);
+    this.pos += 1;
+  }
+
+  private ident(): string {
+    const match = /^[A-Za-z_][\w-]*/.exec(this.source.slice(this.pos));
+    if (!match) this.fail("expected a name");
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private selectorList(relative = false): Selector[] {
+    const list = [this.selector(relative)];
+    this.skipSpace();
+    while (this.peek() === ",") {
+      this.pos += 1;
+      list.push(this.selector(relative));
+      this.skipSpace();
+    }
+    return list;
+  }
+
+  // Relative selectors (inside :has) start at an implicit :scope compound
+  private selector(relative: boolean): Selector {
+    this.skipSpace();
+    const steps: Step[] = [];
+    if (relative) {
+      steps.push({ combinator: " ", compound: { scope: true, attributes: [], has: [], not: [] } });
+      if (this.peek() === ">") {
+        this.pos += 1;
+        this.skipSpace();
+        steps.push({ combinator: ">", compound: this.compound() });
+      } else {
+        steps.push({ combinator: " ", compound: this.compound() });
+      }
+    } else {
+      steps.push({ combinator: " ", compound: this.compound() });
+    }
+    for (;;) {
+      const spaced = this.skipSpace();
+      const next = this.peek();
+      if (next === ">") {
+        this.pos += 1;
+        this.skipSpace();
+        steps.push({ combinator: ">", compound: this.compound() });
+      } else if (spaced && next !== "" && next !== "," && next !== ")") {
+        steps.push({ combinator: " ", compound: this.compound() });
+      } else {
+        return steps;
+      }
+    }
+  }
+
+  private compound(): Compound {
+    const compound: Compound = { attributes: [], has: [], not: [] };
+    const start = this.pos;
+    if (this.peek() === "*") this.pos += 1;
+    else if (/[A-Za-z_]/.test(this.peek())) compound.type = this.ident().toUpperCase();
+    for (;;) {
+      if (this.peek() === "[") compound.attributes.push(this.attribute());
+      else if (this.peek() === ":") this.pseudo(compound);
+      else break;
+    }
+    if (this.pos === start) this.fail("expected a node type, [attribute] or :pseudo-class");
+    return compound;
+  }
+
+  private attribute(): AttributeTest {
+    this.expect("[");
+    this.skipSpace();
+    const name = this.ident();
+    this.skipSpace();
+    const op = ATTRIBUTE_OPS.find((o) => this.source.startsWith(o, this.pos));
+    if (!op) {
+      this.expect("]");
+      return { name, caseInsensitive: false };
+    }
+    this.pos += op.length;
+    this.skipSpace();
+    const valueAt = this.pos;
+    const value = this.value();
+    if (op.startsWith("<") || op.startsWith(">")) {
+      if (value.trim() === "" || !Number.isFinite(Number(value))) {
+        this.pos = valueAt;
+        this.fail(`${op} needs a number, got "${value}"`);
+      }
+    }
+    this.skipSpace();
+    let caseInsensitive = false;
+    if (/^i[\s\]]/i.test(this.source.slice(this.pos))) {
+      caseInsensitive = true;
+      this.pos += 1;
+      this.skipSpace();
+    }
+    this.expect("]");
+    return { name, op, value, caseInsensitive };
+  }
+
+  private value(): string {
+    const quote = this.peek();
+    if (quote === '"' || quote === "'") {
+      this.pos += 1;
+      let out = "";
+      while (this.peek() !== quote) {
+        if (this.pos >= this.source.length) this.fail(`unterminated string, expected ${quote}`);
+        if (this.peek() === "\\") this.pos += 1;
+        out += this.peek();
+        this.pos += 1;
+      }
+      this.pos += 1;
+      return out;
+    }
+    const match = /^[^\s\]]+/.exec(this.source.slice(this.pos));
+    if (!match) this.fail("expected a value");
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private pseudo(compound: Compound): void {
+    this.expect(":");
+    const name = this.ident().toLowerCase();
+    if (name !== "has" && name !== "not") this.fail(`unknown pseudo-class :${name} (supported: :has, :not)`);
+    this.expect("(");
+    const list = this.selectorList(name === "has");
+    this.skipSpace();
+    this.expect(")");
+    compound[name].push(...list);
+  }
+}
+
+/** Parse a selector list; throws with the position of the first syntax error. */
+export function parseSelector(source: string): Selector[] {
+  if (!source.trim()) throw new Error("Empty selector");
+  return new SelectorParser(source).parse();
+}
+
+function attributeValues(node: FigmaNode, name: string, ctx: MatchContext): Array<string | number | boolean> {
+  const text = isNodeType(node, "TEXT") ? node : undefined;
+  const size = nodeSize(node);
+  const componentMeta = isNodeType(node, "INSTANCE") ? ctx.components[node.componentId] : ctx.components[node.id];
+  const hexes = (paints: ReturnType<typeof solidFills>) => paints.map((p) => rgbaToHex(p.color).rgb);
+  const present = <T>(value: T | undefined | null): T[] => (value === undefined || value === null ? [] : [value]);
+  switch (name) {
+    case "component":
+      return present(componentMeta?.name ?? (node.type === "COMPONENT" ? node.name : undefined));
+    case "componentSet":
+      return present(componentMeta?.componentSetId ? ctx.componentSets[componentMeta.componentSetId]?.name : undefined);
+    case "text":
+    case "characters":
+      return present(text?.characters);
+    case "fontFamily":
+    case "fontSize":
+    case "fontWeight":
+    case "letterSpacing":
+      return present(text?.style?.[name]);
+    case "lineHeight":
+      return present(text?.style?.lineHeightPx);
+    case "width":
+    case "height":
+      return present(size?.[name]);
+    case "fill":
+      return hexes(solidFills(node));
+    case "stroke":
+      return hexes(solidStrokes(node));
+    case "style":
+      return Object.values(node.styles ?? {}).flatMap((id) => present(ctx.styles[id]?.name));
+    case "visible":
+      return [node.visible !== false];
+    default: {
+      const value = (node as Record<string, unknown>)[name];
+      return typeof value === "string" || typeof value === "number" || typeof value === "boolean" ? [value] : [];
+    }
+  }
+}
+
+function compareValue(actual: string | number | boolean, op: AttributeOp, expected: string, caseInsensitive: boolean): boolean {
+  if (op === "<" || op === "<=" || op === ">" || op === ">=") {
+    const wanted = Number(expected);
+    if (typeof actual !== "number" || !Number.isFinite(wanted)) return false;
+    return op === "<" ? actual < wanted : op === "<=" ? actual <= wanted : op === ">" ? actual > wanted : actual >= wanted;
+  }
+  if (typeof actual === "number" && Number.isFinite(Number(expected)) && (op === "=" || op === "!=")) {
+    return (actual === Number(expected)) === (op === "=");
+  }
+  const fold = (s: string) => (caseInsensitive ? s.toLowerCase() : s);
+  const a = fold(String(actual));
+  const e = fold(expected);
+  switch (op) {
+    case "=":
+      return a === e;
+    case "!=":
+      return a !== e;
+    case "^=":
+      return a.startsWith(e);
+    case "$=":
+      return a.endsWith(e);
+    default:
+      return a.includes(e);
+  }
+}
+
+function matchesAttribute(node: FigmaNode, test: AttributeTest, ctx: MatchContext): boolean {
+  const values = attributeValues(node, test.name, ctx);
+  if (!test.op || test.value === undefined) return values.length > 0;
+  // Hex colors are written in either case
+  const caseInsensitive = test.caseInsensitive || test.name === "fill" || test.name === "stroke";
+  if (test.op === "!=") return values.every((v) => compareValue(v, "!=", test.value as string, caseInsensitive));
+  return values.some((v) => compareValue(v, test.op as AttributeOp, test.value as string, caseInsensitive));
+}
+
+function matchesType(node: FigmaNode, type: string | undefined): boolean {
+  if (!type) return true;
+  if (type === "PAGE") return node.type === "CANVAS";
+  if (type === "IMAGE") return nodeFills(node).some((p) => p.type === "IMAGE");
+  return node.type === type;
+}
+
+// Calls `visit` for every descendant of `node` with its ancestors (root first, ending at its parent)
+function forEachDescendant(node: FigmaNode, ancestors: FigmaNode[], visit: (n: FigmaNode, ancestors: FigmaNode[]) => boolean): boolean {
+  const chain = [...ancestors, node];
+  for (const child of nodeChildren(node)) {
+    if (visit(child, chain) || forEachDescendant(child, chain, visit)) return true;
+  }
+  return false;
+}
+
+function matchesCompound(compound: Compound, node: FigmaNode, ancestors: FigmaNode[], ctx: MatchContext): boolean {
+  if (compound.scope) return node === ctx.scope;
+  if (!matchesType(node, compound.type)) return false;
+  if (!compound.attributes.every((a) => matchesAttribute(node, a, ctx))) return false;
+  if (compound.not.some((s) => matchesSelector(s, node, ancestors, ctx))) return false;
+  for (const relative of compound.has) {
+    const inner = { ...ctx, scope: node };
+    if (!forEachDescendant(node, ancestors, (d, chain) => matchesSelector(relative, d, chain, inner))) return false;
+  }
+  return true;
+}
+
+function matchesFrom(selector: Selector, index: number, node: FigmaNode, ancestors: FigmaNode[], ctx: MatchContext): boolean {
+  const step = selector[index] as Step;
+  if (!matchesCompound(step.compound, node, ancestors, ctx)) return false;
+  if (index === 0) return true;
+  if (step.combinator === ">") {
+    const parent = ancestors[ancestors.length - 1];
+    return !!parent && matchesFrom(selector, index - 1, parent, ancestors.slice(0, -1), ctx);
+  }
+  for (let i = ancestors.length - 1; i >= 0; i--) {
+    if (matchesFrom(selector, index - 1, ancestors[i] as FigmaNode, ancestors.slice(0, i), ctx)) return true;
+  }
+  return false;
+}
+
+function matchesSelector(selector: Selector, node: FigmaNode, ancestors: FigmaNode[], ctx: MatchContext): boolean {
+  return matchesFrom(selector, selector.length - 1, node, ancestors, ctx);
+}
+
+/**
+ * Nodes matching `selector`, in document order. The whole document is walked so that selectors can refer to
+ * pages and frames above the scope; only matches on `scope.pageName` / below `scope.rootNodeId` are returned.
+ */
+export function queryNodes(file: FigmaFile, fileKey: string, selector: string, options: ReportScope & { limit?: number } = {}) {
+  const selectors = parseSelector(selector);
+  const limit = options.limit ?? 200;
+  const rootId = options.rootNodeId ? normalizeNodeId(options.rootNodeId) : undefined;
+  const pageName = options.pageName?.toLowerCase();
+  const ctx: MatchContext = { components: file.components, componentSets: file.componentSets, styles: file.styles };
+  const matches: QueryMatch[] = [];
+  let total = 0;
+
+  forEachDescendant(file.document, [], (node, ancestors) => {
+    const page = ancestors[1] ?? node;
+    if (pageName && page.name.toLowerCase() !== pageName) return false;
+    if (rootId && node.id !== rootId && !ancestors.some((a) => a.id === rootId)) return false;
+    if (!selectors.some((s) => matchesSelector(s, node, ancestors, ctx))) return false;
+    total += 1;
+    if (matches.length < limit) {
+      matches.push({
+        id: node.id,
+        name: node.name,
+        type: node.type,
+        page: page.name,
+        path: [...ancestors.slice(1), node].map((n) => n.name || n.id).join(" / "),
+        link: figmaNodeUrl(fileKey, node.id),
+      });
+    }
+    return false;
+  });
+  return { selector, count: total, matches, truncated: total > matches.length };
+}
+
+export async function runNodeQuery(fileKey: string, token: string, selector: string, options: ReportScope & { limit?: number } = {}) {
+  // Parse first so a typo fails before the file is fetched
+  parseSelector(selector);
+  const file = await getFile(fileKey, token);
+  return { fileName: file.name, fileKey, ...queryNodes(file, fileKey, selector, options) };
+}
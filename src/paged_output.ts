@@ -0,0 +1,196 @@
+// Size-aware JSON output for the raw file/node tools. Node trees can be cut down with a field projection;
+// when the result still exceeds `maxChars`, the nodes are listed flat in pre-order (linked by parentId)
+// and returned in pages with an opaque continuation cursor. The cursor pins the file version, so a page
+// is never stitched together from two different versions.
+
+import { nodeChildren } from "./figma_nodes.js";
+import type { FigmaFile, FigmaNode, FileNodesResponse } from "./figma_types.js";
+
+export const DEFAULT_MAX_CHARS = 50_000;
+
+export type TreeOutputOptions = {
+  // Keep only these node fields (e.g. ["id", "name", "type", "children"]); children are only walked if listed.
+  fields?: string[];
+  maxChars?: number;
+  cursor?: string;
+};
+
+export type TreeFetchOptions = {
+  // Levels of the tree Figma returns (1 = pages only for a file, the node itself for a node lookup)
+  depth?: number | undefined;
+  // Include vector path data (geometry=paths)
+  geometry?: boolean;
+};
+
+type FlatNode = Record<string, unknown> & { parentId: string | null; childCount?: number };
+
+type Cursor = { offset: number; version: string | null };
+
+
+// The node's own fields (never children), limited to `fields` when a projection is set
+function ownFields(node: FigmaNode, fields: string[] | undefined): Record<string, unknown> {
+  if (!fields) {
+    const { children: _children, ...rest } = node;
+    return rest;
+  }
+  const out: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = (node as Record<string, unknown>)[field];
+    if (field !== "children" && value !== undefined) out[field] = value;
+  }
+  return out;
+}
+
+/** Copy of `node` with only the projected fields; with no projection the node is returned as is. */
+export function projectNode(node: FigmaNode, fields: string[] | undefined): Record<string, unknown> {
+  if (!fields) return node;
+  const out = ownFields(node, fields);
+  if (fields.includes("children") && node.children) out.children = node.children.map((c) => projectNode(c, fields));
+  return out;
+}
+
+/** Query parameters for files/:key and files/:key/nodes. */
+export function treeQuery(options: TreeFetchOptions): Record<string, string> {
+  return {
+    ...(options.depth !== undefined ? { depth: String(options.depth) } : {}),
+    ...(options.geometry ? { geometry: "paths" } : {}),
+  };
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor), "utf8").toString("base64url");
+}
+
+function decodeCursor(raw: string): Cursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8")) as Partial<Cursor>;
+    if (typeof parsed.offset === "number" && parsed.offset >= 0) return { offset: parsed.offset, version: parsed.version ?? null };
+  } catch {
+    // fall through to the error below
+  }
+  throw new Error("Invalid cursor: pass the nextCursor value from the previous page unchanged");
+}
+
+function flatten(roots: FigmaNode[], fields: string[] | undefined): FlatNode[] {
+  const out: FlatNode[] = [];
+  const walkChildren = !fields || fields.includes("children");
+  const visit = (node: FigmaNode, parentId: string | null) => {
+    const kids = walkChildren ? nodeChildren(node) : [];
+    out.push({ ...ownFields(node, fields), parentId, ...(kids.length > 0 ? { childCount: kids.length } : {}) });
+    for (const child of kids) visit(child, node.id);
+  };
+  for (const root of roots) visit(root, null);
+  return out;
+}
+
+export type TreeOutput = {
+  // Small top-level fields (name, version, ...), repeated on every page
+  meta: Record<string, unknown>;
+  // The complete response with projected trees, used when it fits
+  whole: Record<string, unknown>;
+  // The node trees to page through
+  roots: FigmaNode[];
+  // Side tables (components, styles, ...) that pages leave out, with their entry counts
+  omitted: Record<string, number>;
+  version: string | null;
+};
+
+/**
+ * Pretty JSON of `output.whole` if it fits in `maxChars` and no cursor was passed; otherwise one page of
+ * flat nodes starting at the cursor, with a note saying what was cut and how to continue.
+ */
+export function renderTreeOutput(output: TreeOutput, options: TreeOutputOptions = {}): string {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  if (!options.cursor) {
+    const whole = JSON.stringify(output.whole, null, 2);
+    if (whole.length <= maxChars) return whole;
+  }
+
+  const cursor = options.cursor ? decodeCursor(options.cursor) : { offset: 0, version: output.version };
+  if (cursor.version !== output.version) {
+    throw new Error(`The file changed since this cursor was issued (version ${cursor.version} -> ${output.version}); start again without a cursor`);
+  }
+  const nodes = flatten(output.roots, options.fields);
+  if (cursor.offset > nodes.length) throw new Error(`Cursor is past the end of the result (${nodes.length} nodes)`);
+
+  const omittedKeys = Object.keys(output.omitted);
+  const render = (page: FlatNode[]) => {
+    const end = cursor.offset + page.length;
+    const more = end < nodes.length;
+    const note = [
+      `Output is larger than maxChars (${maxChars}), so nodes are listed flat in pre-order; rebuild the tree with parentId/childCount.`,
+      `This page has nodes ${Math.min(cursor.offset + 1, end)}-${end} of ${nodes.length}.`,
+      omittedKeys.length > 0 ? `Left out: ${omittedKeys.join(", ")} (entry counts under "omitted").` : "",
+      more ? "Call again with the same arguments and cursor=nextCursor for the next page." : "This is the last page.",
+    ]
+      .filter(Boolean)
+      .join(" ");
+    return JSON.stringify(
+      {
+        truncated: true,
+        note,
+        ...output.meta,
+        page: { from: cursor.offset, to: end, totalNodes: nodes.length },
+        ...(omittedKeys.length > 0 ? { omitted: output.omitted } : {}),
+        ...(more ? { nextCursor: encodeCursor({ offset: end, version: output.version }) } : {}),
+        nodes: page,
+      },
+      null,
+      2
+    );
+  };
+
+  // The envelope without nodes (plus slack for the cursor and digits) sets the budget for the node list.
+  // At least one node is always emitted so a single oversized node cannot stall the paging.
+  const budget = maxChars - render([]).length - 100;
+  const page: FlatNode[] = [];
+  let used = 0;
+  for (const node of nodes.slice(cursor.offset)) {
+    // Nodes sit two levels deep in the page, which adds indentation to every line
+    const json = JSON.stringify(node, null, 2);
+    const size = json.length + 4 * json.split("\n").length + 2;
+    if (page.length > 0 && used + size > budget) break;
+    page.push(node);
+    used += size;
+  }
+  return render(page);
+}
+
+function tableSizes(tables: Record<string, Record<string, unknown>>): Record<string, number> {
+  return Object.fromEntries(Object.entries(tables).map(([key, table]) => [key, Object.keys(table).length]));
+}
+
+/** GET files/:key as a TreeOutput: the document is paged, components/componentSets/styles are left out of pages. */
+export function fileTreeOutput(file: FigmaFile, fields: string[] | undefined): TreeOutput {
+  const { document, components, componentSets, styles, ...meta } = file;
+  return {
+    meta,
+    whole: { ...meta, document: projectNode(document, fields), components, componentSets, styles },
+    roots: [document],
+    omitted: tableSizes({ components, componentSets, styles }),
+    version: file.version ?? null,
+  };
+}
+
+/** GET files/:key/nodes as a TreeOutput: every requested node's subtree is paged; ids Figma did not find stay null. */
+export function nodesTreeOutput(res: FileNodesResponse, fields: string[] | undefined): TreeOutput {
+  const { nodes, ...meta } = res;
+  const found = Object.values(nodes).filter((entry) => entry !== null);
+  const missing = Object.keys(nodes).filter((id) => nodes[id] === null);
+  return {
+    meta: missing.length > 0 ? { ...meta, missingNodeIds: missing } : meta,
+    whole: {
+      ...meta,
+      nodes: Object.fromEntries(
+        Object.entries(nodes).map(([id, entry]) => [id, entry && { ...entry, document: projectNode(entry.document, fields) }])
+      ),
+    },
+    roots: found.map((entry) => entry.document),
+    omitted: tableSizes({
+      components: Object.assign({}, ...found.map((entry) => entry.components)),
+      componentSets: Object.assign({}, ...found.map((entry) => entry.componentSets)),
+      styles: Object.assign({}, ...found.map((entry) => entry.styles)),
+    }),
+    version: res.version ?? null,
+  };
+}
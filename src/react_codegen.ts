@@ -0,0 +1,341 @@
+// React + CSS module generator working on simplified node trees (simplify.ts).
+// Auto-layout maps to flexbox, fills/strokes/radii to CSS, TEXT nodes to text elements with their
+// typography, and nested INSTANCEs to imports of their own generated components (or a local stub when
+// that component is not generated in the same run).
+
+import { getFile } from "./figma_client.js";
+import { visiblePaints } from "./figma_nodes.js";
+import type { FigmaFile, FigmaNode, TypeStyle } from "./figma_types.js";
+import { findNodeById, normalizeNodeId, rgbaToHex } from "./figma_utils.js";
+import { simplifyNode, type SimplifiedLayout, type SimplifiedNode, type SimplifiedPaint } from "./simplify.js";
+
+export type GeneratedFile = { path: string; content: string };
+
+type Dependency = { componentId: string; name: string };
+
+type CssRule = { className: string; declarations: string[] };
+
+const JUSTIFY: Record<string, string> = {
+  MIN: "flex-start",
+  CENTER: "center",
+  MAX: "flex-end",
+  SPACE_BETWEEN: "space-between",
+};
+const ALIGN: Record<string, string> = {
+  MIN: "flex-start",
+  CENTER: "center",
+  MAX: "flex-end",
+  BASELINE: "baseline",
+};
+const TEXT_ALIGN: Record<string, string> = { LEFT: "left", CENTER: "center", RIGHT: "right", JUSTIFIED: "justify" };
+const TEXT_TRANSFORM: Record<string, string> = { UPPER: "uppercase", LOWER: "lowercase", TITLE: "capitalize" };
+const TEXT_DECORATION: Record<string, string> = { UNDERLINE: "underline", STRIKETHROUGH: "line-through" };
+const SHAPE_TYPES = new Set(["VECTOR", "ELLIPSE", "LINE", "STAR", "POLYGON", "BOOLEAN_OPERATION"]);
+
+function px(n: number): string {
+  return `${Math.round(n * 100) / 100}px`;
+}
+
+function words(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+export function componentNameFor(name: string): string {
+  const pascal = words(name)
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join("");
+  if (!pascal) return "Component";
+  return /^[A-Za-z]/.test(pascal) ? pascal : `C${pascal}`;
+}
+
+function classNameFor(name: string): string {
+  const parts = words(name).map((w) => w.toLowerCase());
+  const camel = parts.map((w, i) => (i === 0 ? w : w.charAt(0).toUpperCase() + w.slice(1))).join("");
+  if (!camel) return "node";
+  return /^[a-z]/.test(camel) ? camel : `n${camel}`;
+}
+
+function solidHex(paints: SimplifiedPaint[] | undefined): string | undefined {
+  const fills = paints ?? [];
+  for (let i = fills.length - 1; i >= 0; i--) {
+    const f = fills[i];
+    if (f?.type === "SOLID" && f.hex) return f.hex;
+  }
+  return undefined;
+}
+
+function strokeDeclaration(node: SimplifiedNode): string | undefined {
+  const stroke = visiblePaints(node.strokes).find((s) => s.type === "SOLID" && s.color);
+  const weight = node.strokeWeight ?? 1;
+  if (!stroke || weight <= 0) return undefined;
+  return `border: ${px(weight)} solid ${rgbaToHex(stroke.color, (stroke.opacity ?? 1) * (stroke.color?.a ?? 1)).rgba};`;
+}
+
+function radiusDeclaration(node: SimplifiedNode): string | undefined {
+  if (node.type === "ELLIPSE") return "border-radius: 50%;";
+  if (node.rectangleCornerRadii?.length === 4) return `border-radius: ${node.rectangleCornerRadii.map(px).join(" ")};`;
+  if (node.cornerRadius !== undefined && node.cornerRadius > 0) return `border-radius: ${px(node.cornerRadius)};`;
+  return undefined;
+}
+
+function layoutDeclarations(layout: SimplifiedLayout): string[] {
+  const decls = ["display: flex;", `flex-direction: ${layout.mode === "HORIZONTAL" ? "row" : "column"};`];
+  const justify = JUSTIFY[layout.primaryAxisAlignItems];
+  if (justify && justify !== "flex-start") decls.push(`justify-content: ${justify};`);
+  const align = ALIGN[layout.counterAxisAlignItems];
+  if (align) decls.push(`align-items: ${align};`);
+  if (layout.primaryAxisAlignItems !== "SPACE_BETWEEN" && layout.itemSpacing > 0) decls.push(`gap: ${px(layout.itemSpacing)};`);
+  if (layout.wrap) {
+    decls.push("flex-wrap: wrap;");
+    const rowGap = layout.counterAxisSpacing ?? 0;
+    if (rowGap > 0) decls.push(`row-gap: ${px(rowGap)};`);
+  }
+  const p = layout.padding;
+  if (p.top || p.right || p.bottom || p.left) decls.push(`padding: ${[p.top, p.right, p.bottom, p.left].map(px).join(" ")};`);
+  return decls;
+}
+
+// Width/height depend on the parent's auto-layout direction: FILL grows along the main axis and stretches across it.
+function sizeDeclarations(node: SimplifiedNode, parentLayout: SimplifiedLayout | undefined, isRoot: boolean): string[] {
+  const decls: string[] = [];
+  const size = node.size;
+  const axes: Array<{ sizing: string | undefined; prop: "width" | "height"; value: number | undefined; main: boolean }> = [
+    { sizing: node.sizingHorizontal, prop: "width", value: size?.width, main: parentLayout?.mode === "HORIZONTAL" },
+    { sizing: node.sizingVertical, prop: "height", value: size?.height, main: parentLayout?.mode === "VERTICAL" },
+  ];
+  for (const axis of axes) {
+    const fill = axis.sizing === "FILL" || (axis.main ? (node.layoutGrow ?? 0) > 0 : node.layoutAlign === "STRETCH");
+    if (!isRoot && parentLayout && fill) {
+      decls.push(axis.main ? "flex: 1 1 0;" : "align-self: stretch;");
+      continue;
+    }
+    if (axis.sizing === "HUG") continue;
+    // Text without explicit sizing flows with its content unless it is absolutely positioned
+    if (node.type === "TEXT" && !axis.sizing && !node.position) continue;
+    if (typeof axis.value === "number") decls.push(`${axis.prop}: ${px(axis.value)};`);
+  }
+  return decls;
+}
+
+function textDeclarations(node: SimplifiedNode): string[] {
+  const decls = ["margin: 0;"];
+  const color = solidHex(node.fills);
+  if (color) decls.push(`color: ${color};`);
+  const s: TypeStyle = node.textStyle ?? {};
+  if (s.fontFamily) decls.push(`font-family: "${s.fontFamily}", sans-serif;`);
+  if (typeof s.fontSize === "number") decls.push(`font-size: ${px(s.fontSize)};`);
+  if (typeof s.fontWeight === "number") decls.push(`font-weight: ${s.fontWeight};`);
+  if (s.italic) decls.push("font-style: italic;");
+  if (typeof s.lineHeightPx === "number" && s.lineHeightUnit !== "INTRINSIC_%") decls.push(`line-height: ${px(s.lineHeightPx)};`);
+  if (typeof s.letterSpacing === "number" && s.letterSpacing !== 0) decls.push(`letter-spacing: ${px(s.letterSpacing)};`);
+  const align = TEXT_ALIGN[s.textAlignHorizontal ?? ""];
+  if (align && align !== "left") decls.push(`text-align: ${align};`);
+  const transform = TEXT_TRANSFORM[s.textCase ?? ""];
+  if (transform) decls.push(`text-transform: ${transform};`);
+  const decoration = TEXT_DECORATION[s.textDecoration ?? ""];
+  if (decoration) decls.push(`text-decoration: ${decoration};`);
+  if ((node.characters ?? "").includes("\n")) decls.push("white-space: pre-wrap;");
+  return decls;
+}
+
+function boxDeclarations(node: SimplifiedNode): string[] {
+  const decls: string[] = [];
+  const fills = node.fills ?? [];
+  const bg = solidHex(fills);
+  if (bg) decls.push(`background-color: ${bg};`);
+  if (fills.some((f) => f.type === "IMAGE")) decls.push("/* image fill: set background-image to the exported asset */");
+  if (fills.some((f) => f.type.startsWith("GRADIENT_"))) {
+    decls.push("/* gradient fill: see design tokens for the gradient value */");
+  }
+  const border = strokeDeclaration(node);
+  if (border) decls.push("box-sizing: border-box;", border);
+  const radius = radiusDeclaration(node);
+  if (radius) decls.push(radius);
+  return decls;
+}
+
+/**
+ * Generate one component (TSX + CSS module) from a simplified node tree.
+ * `componentNames` maps componentId → generated component name for nested instances. Instances for which
+ * `isGenerated` is false get a stub in the same file instead of an import, so the output always compiles.
+ */
+export function generateReactComponent(
+  root: SimplifiedNode,
+  componentName: string,
+  componentNames: Map<string, string>,
+  isGenerated: (componentId: string) => boolean = () => false
+): { tsx: string; css: string; dependencies: Dependency[] } {
+  const rules: CssRule[] = [];
+  const usedClasses = new Set<string>();
+  const dependencies = new Map<string, Dependency>();
+
+  const allocClass = (name: string): string => {
+    const base = classNameFor(name);
+    let candidate = base;
+    let i = 2;
+    while (usedClasses.has(candidate)) candidate = `${base}${i++}`;
+    usedClasses.add(candidate);
+    return candidate;
+  };
+
+  const render = (
+    node: SimplifiedNode,
+    parentLayout: SimplifiedLayout | undefined,
+    indent: string,
+    isRoot: boolean,
+    parentTag: string
+  ): string[] => {
+    if (node.hidden) return [];
+    const className = isRoot ? allocClass("root") : allocClass(node.name || node.type || "node");
+    const decls: string[] = [];
+    if (node.position && !isRoot) decls.push("position: absolute;", `left: ${px(node.position.x)};`, `top: ${px(node.position.y)};`);
+    decls.push(...sizeDeclarations(node, parentLayout, isRoot));
+    if (node.opacity !== undefined && node.opacity < 1) decls.push(`opacity: ${Math.round(node.opacity * 100) / 100};`);
+    const rule: CssRule = { className, declarations: decls };
+    rules.push(rule);
+    const classExpr = isRoot ? "{[styles.root, className].filter(Boolean).join(\" \")}" : `{styles.${className}}`;
+
+    if (!isRoot && node.type === "INSTANCE" && node.componentId) {
+      const name = componentNames.get(node.componentId) ?? componentNameFor(node.name || "Component");
+      if (name !== componentName) {
+        dependencies.set(node.componentId, { componentId: node.componentId, name });
+        return [`${indent}<${name} className=${classExpr} />`];
+      }
+    }
+
+    if (node.type === "TEXT") {
+      decls.push(...textDeclarations(node));
+      const tag = parentTag === "span" || parentLayoutIsRow(parentLayout) ? "span" : "p";
+      return [`${indent}<${tag} className=${classExpr}>{${JSON.stringify(node.characters ?? "")}}</${tag}>`];
+    }
+
+    decls.push(...boxDeclarations(node));
+    if (SHAPE_TYPES.has(node.type)) {
+      if (node.type !== "ELLIPSE") decls.push(`/* ${node.type.toLowerCase()}: export as SVG for exact shape */`);
+      return [`${indent}<div className=${classExpr} aria-hidden="true" />`];
+    }
+
+    if (node.layout) decls.push(...layoutDeclarations(node.layout));
+    const children = (node.children ?? []).filter((c) => !c.hidden);
+    if (children.some((c) => c.position)) decls.unshift("position: relative;");
+    if (children.length === 0) return [`${indent}<div className=${classExpr} />`];
+    const lines = [`${indent}<div className=${classExpr}>`];
+    for (const child of children) lines.push(...render(child, node.layout, `${indent}  `, false, "div"));
+    lines.push(`${indent}</div>`);
+    return lines;
+  };
+
+  const jsx = render(root, undefined, "    ", true, "div");
+  const deps = Array.from(dependencies.values()).sort((a, b) => a.name.localeCompare(b.name));
+  // Two library components can share a name; the JSX refers to both by it, so declare it once
+  const declared = deps.filter((d, i) => deps.findIndex((o) => o.name === d.name) === i);
+  const stubs = declared.filter((d) => !isGenerated(d.componentId));
+
+  const tsxLines = [
+    `// Generated from Figma node "${root.name}" (${root.id}).`,
+    `import styles from "./${componentName}.module.css";`,
+    ...declared.filter((d) => isGenerated(d.componentId)).map((d) => `import { ${d.name} } from "./${d.name}";`),
+    "",
+    ...stubs.flatMap((d) => [
+      `// Placeholder for ${d.name} (component ${d.componentId}), which was not generated.`,
+      `function ${d.name}({ className }: { className?: string }) {`,
+      "  return <div className={className} />;",
+      "}",
+      "",
+    ]),
+    `export type ${componentName}Props = {`,
+    "  className?: string;",
+    "};",
+    "",
+    `export function ${componentName}({ className }: ${componentName}Props) {`,
+    "  return (",
+    ...jsx,
+    "  );",
+    "}",
+    "",
+    `export default ${componentName};`,
+    "",
+  ];
+
+  const cssLines: string[] = [];
+  for (const rule of rules) {
+    if (rule.declarations.length === 0) continue;
+    cssLines.push(`.${rule.className} {`, ...rule.declarations.map((d) => `  ${d}`), "}", "");
+  }
+  return { tsx: tsxLines.join("\n"), css: cssLines.join("\n"), dependencies: deps };
+}
+
+function parentLayoutIsRow(layout: SimplifiedLayout | undefined): boolean {
+  return layout?.mode === "HORIZONTAL";
+}
+
+/** Stable, unique component names for every component in the file (variants include their set name). */
+export function buildComponentNames(file: FigmaFile): Map<string, string> {
+  const components = file.components;
+  const sets = file.componentSets;
+  const names = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const id of Object.keys(components).sort()) {
+    const meta = components[id];
+    const set = meta?.componentSetId ? sets[meta.componentSetId] : undefined;
+    const base = componentNameFor(set?.name ? `${set.name} ${meta?.name ?? ""}` : meta?.name ?? id);
+    let name = base;
+    let i = 2;
+    while (taken.has(name)) name = `${base}${i++}`;
+    taken.add(name);
+    names.set(id, name);
+  }
+  return names;
+}
+
+/**
+ * Generate the component for `rootNodeId` and, when `recursive`, every local component it instantiates.
+ * Instances of components that are not generated (library components, or all of them without `recursive`)
+ * become stubs inside the component that uses them and are listed in `missingComponents`.
+ */
+export function generateReactFiles(
+  file: FigmaFile,
+  rootNodeId: string,
+  options: { recursive?: boolean } = {}
+): { rootComponent: string; files: GeneratedFile[]; missingComponents: Dependency[] } {
+  const document = file.document;
+  const rootNode = findNodeById(document, normalizeNodeId(rootNodeId));
+  if (!rootNode) throw new Error(`Node ${rootNodeId} not found in file`);
+  const componentNames = buildComponentNames(file);
+  const rootComponent =
+    rootNode.type === "COMPONENT" ? componentNames.get(rootNode.id) ?? componentNameFor(rootNode.name) : componentNameFor(rootNode.name ?? "");
+
+  const local = new Map<string, FigmaNode | undefined>();
+  const localNode = (componentId: string) => {
+    if (!local.has(componentId)) local.set(componentId, findNodeById(document, componentId));
+    return local.get(componentId);
+  };
+  const isGenerated = (componentId: string) => Boolean(options.recursive && localNode(componentId));
+
+  const files: GeneratedFile[] = [];
+  const missing = new Map<string, Dependency>();
+  const generated = new Set<string>();
+  const queue: Array<{ node: FigmaNode; name: string }> = [{ node: rootNode, name: rootComponent }];
+  while (queue.length > 0) {
+    const { node, name } = queue.shift() as { node: FigmaNode; name: string };
+    if (generated.has(name)) continue;
+    generated.add(name);
+    const { tsx, css, dependencies } = generateReactComponent(simplifyNode(node), name, componentNames, isGenerated);
+    files.push({ path: `${name}.tsx`, content: tsx }, { path: `${name}.module.css`, content: css });
+    for (const dep of dependencies) {
+      const depNode = isGenerated(dep.componentId) ? localNode(dep.componentId) : undefined;
+      if (depNode) queue.push({ node: depNode, name: dep.name });
+      else missing.set(dep.componentId, dep);
+    }
+  }
+  return { rootComponent, files, missingComponents: Array.from(missing.values()) };
+}
+
+/** Fetch the file and generate components for `rootNodeId`. */
+export async function runReactCodegen(fileKey: string, token: string, rootNodeId: string, options: { recursive?: boolean } = {}) {
+  const file = await getFile(fileKey, token);
+  return { fileName: file.name, fileKey, ...generateReactFiles(file, rootNodeId, options) };
+}
@@ -1,7 +1,48 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 // Using NodeJS.ProcessEnv type from @types/node (global)
+import { join } from "node:path";
 import { z } from "zod";
+import { exportAssets } from "./asset_export.js";
+import { runColorConsolidation } from "./color_consolidation.js";
+import { runComponentProps } from "./component_props.js";
+import { runContrastAudit } from "./contrast_audit.js";
+import { generateCssTheme } from "./css_theme.js";
+import { exportDesignTokens } from "./design_tokens.js";
+import { clearCache, getCacheStatus } from "./figma_cache.js";
+import { getFile, getFileNodes, getImages } from "./figma_client.js";
+import { findingsFromAnalyzer, listCommentThreads, postComment, postFindings, type Finding } from "./figma_comments.js";
+import { registerFigmaPrompts } from "./figma_prompts.js";
+import { registerFigmaResources } from "./figma_resources.js";
+import type { FigmaNode } from "./figma_types.js";
+import { extractFirstUrlCandidate, getFigmaToken, normalizeNodeId, parseFigmaUrl, traverse, writeOutputFile } from "./figma_utils.js";
+import { renderAnalyzeText, runAnalyzeReport, runInventory } from "./file_reports.js";
+import { extractIconLibrary } from "./icon_library.js";
+import { runNodeQuery } from "./node_query.js";
+import {
+  DEFAULT_MAX_CHARS,
+  fileTreeOutput,
+  nodesTreeOutput,
+  renderTreeOutput,
+  treeQuery,
+  type TreeOutputOptions,
+} from "./paged_output.js";
+import { runReactCodegen } from "./react_codegen.js";
+import { simplifyNode, type SimplifiedNode } from "./simplify.js";
+import { runSpacingAudit } from "./spacing_audit.js";
+import {
+  KEY_MAP_FILE_NAME,
+  loadCatalogKeyMap,
+  renderCatalog,
+  runStringCatalog,
+  writeStringCatalog,
+  type CatalogFormat,
+} from "./string_catalog.js";
+import { runStyleUsageReport } from "./style_usage.js";
+import { DEFAULT_OVERFLOW_LOCALES, loadTranslations, runTextOverflowCheck, type Translations } from "./text_overflow.js";
+import { runTypographyAudit } from "./typography_audit.js";
+import { runUiVariants } from "./ui_variants.js";
+import { diffVersions, listVersions, renderDiffMarkdown } from "./version_diff.js";
 
 const SERVER_NAME = "custom-figma-mcp";
 const SERVER_VERSION = "0.1.0";
@@ -9,98 +50,16 @@ const SERVER_VERSION = "0.1.0";
 // providing parameters from the chat/UI. Alternatively, set FIGMA_DEFAULT_URL in environment.
 const DEFAULT_FIGMA_URL = process.env.FIGMA_DEFAULT_URL || "";
 
-function getFigmaToken(env: NodeJS.ProcessEnv): string {
-  const token = env.FIGMA_TOKEN || env.FIGMA_API_TOKEN || "";
-  if (!token) {
-    throw new Error(
-      "Missing Figma token. Please set FIGMA_TOKEN (or FIGMA_API_TOKEN) in the environment."
-    );
-  }
-  return token;
-}
-
-function rgbaToHex(color: { r: number; g: number; b: number } | undefined, opacity: number = 1): {
-  rgb: string;
-  rgba: string;
-  alpha255: number;
-} {
-  const r = Math.round(((color?.r ?? 0) as number) * 255);
-  const g = Math.round(((color?.g ?? 0) as number) * 255);
-  const b = Math.round(((color?.b ?? 0) as number) * 255);
-  const a = Math.round(((opacity ?? 1) as number) * 255);
-  const toHex = (n: number) => n.toString(16).padStart(2, "0").toUpperCase();
-  const rgb = `#${toHex(r)}${toHex(g)}${toHex(b)}`;
-  const rgba = a < 255 ? `${rgb}${toHex(a)}` : rgb;
-  return { rgb, rgba, alpha255: a };
-}
-
-function traverse(node: any, visit: (n: any) => void): void {
-  if (!node) return;
-  visit(node);
-  const children: any[] = Array.isArray(node?.children) ? (node.children as any[]) : [];
-  for (const child of children) traverse(child, visit);
-}
-
-function extractFirstUrlCandidate(input: string): string | undefined {
-  if (!input) return undefined;
-  const trimmed = input.trim();
-  // If the whole input is a URL, try that first
-  if (/^https?:\/\//i.test(trimmed)) return trimmed;
-  // Otherwise, search inside the text for the first figma URL
-  const match = trimmed.match(/https?:\/\/\S*figma\.com\S*/i);
-  return match?.[0];
-}
-
-function parseFigmaUrl(figmaUrl: string): { fileKey: string; nodeId?: string } {
-  // Supports:
-  // https://www.figma.com/file/<fileKey>/...
-  // https://www.figma.com/design/<fileKey>/...
-  // Optional node id via ?node-id=<id> or ?node-id=<id>&...
-  // Also supports node_id variant used by some links
-  const url = new URL(figmaUrl);
-  const parts = url.pathname.split("/").filter(Boolean);
-  // e.g., ["file", "<key>", ...] or ["design", "<key>", ...]
-  if (parts.length < 2) {
-    throw new Error("Invalid Figma URL: cannot find file key in path");
-  }
-  const maybeSegment = parts[0];
-  if (maybeSegment !== "file" && maybeSegment !== "design") {
-    throw new Error("Invalid Figma URL: expected /file/<key> or /design/<key>");
-  }
-  const fileKey = parts[1] ?? "";
-  const nodeId = url.searchParams.get("node-id") || url.searchParams.get("node_id") || undefined;
-  const result: { fileKey: string; nodeId?: string } = nodeId ? { fileKey, nodeId } : { fileKey };
-  return result;
-}
-
-async function figmaRequest<T>(
-  endpoint: string,
-  token: string,
-  init?: RequestInit
-): Promise<T> {
-  const res = await fetch(`https://api.figma.com/v1/${endpoint}`, {
-    ...init,
-    headers: {
-      "X-Figma-Token": token,
-      "Content-Type": "application/json",
-      ...(init?.headers || {}),
-    },
-  });
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`Figma API error ${res.status}: ${text}`);
-  }
-  return (await res.json()) as T;
-}
-
 async function main(): Promise<void> {
   const mcp = new McpServer(
     { name: SERVER_NAME, version: SERVER_VERSION },
     {
       instructions:
-        "Tools to read Figma files/nodes via Figma API. Provide FIGMA_TOKEN in env.",
+        "Tools to read Figma files/nodes via Figma API, plus figma://file/{fileKey} resources (pages, frames, nodes). Provide FIGMA_TOKEN in env.",
       capabilities: {
         tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
       },
     }
   );
@@ -120,32 +79,50 @@ async function main(): Promise<void> {
     }
   );
 
+  // Shared by figma_get_file, figma_get_node and figma_get_from_url: what to fetch, which node fields to keep, and paging
+  const treeOutputArgs = {
+    depth: z.number().int().min(1).optional(),
+    geometry: z.boolean().default(false),
+    fields: z.array(z.string()).optional(),
+    maxChars: z.number().int().min(1000).default(DEFAULT_MAX_CHARS),
+    cursor: z.string().optional(),
+  };
+  type TreeOutputArgs = {
+    depth?: number | undefined;
+    geometry: boolean;
+    fields?: string[] | undefined;
+    maxChars: number;
+    cursor?: string | undefined;
+  };
+  const treeOutputOptions = ({ fields, maxChars, cursor }: TreeOutputArgs): TreeOutputOptions => ({
+    maxChars,
+    ...(fields && fields.length > 0 ? { fields } : {}),
+    ...(cursor ? { cursor } : {}),
+  });
+
   // figma_get_file
   mcp.tool(
     "figma_get_file",
-    "Fetch Figma file JSON by fileKey",
-    { fileKey: z.string() },
-    async ({ fileKey }: { fileKey: string }) => {
+    "Fetch Figma file JSON by fileKey. depth limits the tree (1 = pages only), geometry adds vector paths, fields keeps only those node fields (e.g. [\"id\",\"name\",\"type\",\"children\"]). Results over maxChars come back as pages of flat nodes; pass nextCursor as cursor to continue.",
+    { fileKey: z.string(), ...treeOutputArgs },
+    async ({ fileKey, ...args }: { fileKey: string } & TreeOutputArgs) => {
       const token = getFigmaToken(process.env);
-      const data = await figmaRequest<any>(`files/${encodeURIComponent(fileKey)}`, token);
-      return {
-        content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-      };
+      const options = treeOutputOptions(args);
+      const file = await getFile(fileKey, token, treeQuery(args));
+      return { content: [{ type: "text", text: renderTreeOutput(fileTreeOutput(file, options.fields), options) }] };
     }
   );
 
   // figma_get_node
   mcp.tool(
     "figma_get_node",
-    "Fetch specific node JSON by fileKey and nodeId",
-    { fileKey: z.string(), nodeId: z.string() },
-    async ({ fileKey, nodeId }: { fileKey: string; nodeId: string }) => {
+    "Fetch specific node JSON by fileKey and nodeId. Takes the same depth, geometry, fields, maxChars and cursor options as figma_get_file.",
+    { fileKey: z.string(), nodeId: z.string(), ...treeOutputArgs },
+    async ({ fileKey, nodeId, ...args }: { fileKey: string; nodeId: string } & TreeOutputArgs) => {
       const token = getFigmaToken(process.env);
-      const data = await figmaRequest<any>(
-        `files/${encodeURIComponent(fileKey)}/nodes?ids=${encodeURIComponent(nodeId)}`,
-        token
-      );
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const options = treeOutputOptions(args);
+      const nodes = await getFileNodes(fileKey, token, [normalizeNodeId(nodeId)], treeQuery(args));
+      return { content: [{ type: "text", text: renderTreeOutput(nodesTreeOutput(nodes, options.fields), options) }] };
     }
   );
 
@@ -156,12 +133,7 @@ async function main(): Promise<void> {
     { fileKey: z.string(), nodeId: z.string(), scale: z.number().min(0.1).max(4).default(2) },
     async ({ fileKey, nodeId, scale }: { fileKey: string; nodeId: string; scale?: number }) => {
       const token = getFigmaToken(process.env);
-      const data = await figmaRequest<any>(
-        `images/${encodeURIComponent(fileKey)}?ids=${encodeURIComponent(nodeId)}&format=png&scale=${encodeURIComponent(
-          String(scale)
-        )}`,
-        token
-      );
+      const data = await getImages(fileKey, token, { ids: normalizeNodeId(nodeId), format: "png", scale: String(scale) });
       return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
     }
   );
@@ -169,16 +141,16 @@ async function main(): Promise<void> {
   // figma_get_from_url (smart fetch based on URL)
   mcp.tool(
     "figma_get_from_url",
-    "Fetch file or node JSON from a Figma URL. If the URL contains a node-id, fetches the node; otherwise, the file.",
-    { url: z.string() },
-    async ({ url }: { url: string }) => {
+    "Fetch file or node JSON from a Figma URL. If the URL contains a node-id, fetches the node; otherwise, the file. Takes the same depth, geometry, fields, maxChars and cursor options as figma_get_file.",
+    { url: z.string(), ...treeOutputArgs },
+    async ({ url, ...args }: { url: string } & TreeOutputArgs) => {
       const token = getFigmaToken(process.env);
       const { fileKey, nodeId } = parseFigmaUrl(url);
-      const endpoint = nodeId
-        ? `files/${encodeURIComponent(fileKey)}/nodes?ids=${encodeURIComponent(nodeId)}`
-        : `files/${encodeURIComponent(fileKey)}`;
-      const data = await figmaRequest<any>(endpoint, token);
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const options = treeOutputOptions(args);
+      const output = nodeId
+        ? nodesTreeOutput(await getFileNodes(fileKey, token, [normalizeNodeId(nodeId)], treeQuery(args)), options.fields)
+        : fileTreeOutput(await getFile(fileKey, token, treeQuery(args)), options.fields);
+      return { content: [{ type: "text", text: renderTreeOutput(output, options) }] };
     }
   );
 
@@ -190,58 +162,8 @@ async function main(): Promise<void> {
     async ({ url }: { url: string }) => {
       const token = getFigmaToken(process.env);
       const { fileKey } = parseFigmaUrl(url);
-      const file = await figmaRequest<any>(`files/${encodeURIComponent(fileKey)}`, token);
-
-      const document = file?.document ?? {};
-      const pages: string[] = (Array.isArray(document?.children) ? document.children : [])
-        .map((p: any) => p?.name)
-        .filter((n: unknown): n is string => typeof n === "string" && n.length > 0);
-
-      const colorCountMap = new Map<string, number>();
-      traverse(document, (n: any) => {
-        const fills: any[] = Array.isArray(n?.fills) ? (n.fills as any[]) : [];
-        for (const paint of fills) {
-          if (!paint || paint.visible === false) continue;
-          if (paint.type !== "SOLID" || !paint.color) continue;
-          const { rgba } = rgbaToHex(paint.color, (paint.opacity ?? n?.opacity ?? 1) as number);
-          colorCountMap.set(rgba, (colorCountMap.get(rgba) ?? 0) + 1);
-        }
-      });
-
-      const palette = Array.from(colorCountMap.entries())
-        .map(([hex, count]) => ({ hex, count }))
-        .sort((a, b) => b.count - a.count)
-        .slice(0, 50);
-
-      const stylesObj = (file?.styles ?? {}) as Record<string, any>;
-      const fillStyles = Object.values(stylesObj)
-        .filter((s: any) => s?.styleType === "FILL")
-        .map((s: any) => s?.name)
-        .filter((n: unknown): n is string => typeof n === "string" && n.length > 0);
-
-      let report = "=== Figma Raporu ===\n";
-      report += `Dosya adı: ${file?.name ?? "-"}\n`;
-      report += `Dosya anahtarı: ${fileKey}\n\n`;
-      report += "Sayfalar:\n";
-      if (pages.length === 0) {
-        report += "- (bulunamadı)\n";
-      } else {
-        for (const p of pages) report += `- ${p}\n`;
-      }
-
-      report += "\nRenk Paleti (ilk 50, en çok kullanılan):\n";
-      if (palette.length === 0) {
-        report += "- (bulunamadı)\n";
-      } else {
-        for (const c of palette) report += `- ${c.hex} (kullanım: ${c.count})\n`;
-      }
-
-      if (fillStyles.length > 0) {
-        report += "\nRenk Stilleri (FILL):\n";
-        for (const n of fillStyles) report += `- ${n}\n`;
-      }
-
-      return { content: [{ type: "text", text: report }] };
+      const report = await runAnalyzeReport(fileKey, token);
+      return { content: [{ type: "text", text: renderAnalyzeText(report) }] };
     }
   );
 
@@ -266,58 +188,8 @@ async function main(): Promise<void> {
       }
       const token = getFigmaToken(process.env);
       const { fileKey } = parseFigmaUrl(maybeUrl);
-      const file = await figmaRequest<any>(`files/${encodeURIComponent(fileKey)}`, token);
-
-      const document = file?.document ?? {};
-      const pages: string[] = (Array.isArray(document?.children) ? document.children : [])
-        .map((p: any) => p?.name)
-        .filter((n: unknown): n is string => typeof n === "string" && n.length > 0);
-
-      const colorCountMap = new Map<string, number>();
-      traverse(document, (n: any) => {
-        const fills: any[] = Array.isArray(n?.fills) ? (n.fills as any[]) : [];
-        for (const paint of fills) {
-          if (!paint || paint.visible === false) continue;
-          if (paint.type !== "SOLID" || !paint.color) continue;
-          const { rgba } = rgbaToHex(paint.color, (paint.opacity ?? n?.opacity ?? 1) as number);
-          colorCountMap.set(rgba, (colorCountMap.get(rgba) ?? 0) + 1);
-        }
-      });
-
-      const palette = Array.from(colorCountMap.entries())
-        .map(([hex, count]) => ({ hex, count }))
-        .sort((a, b) => b.count - a.count)
-        .slice(0, 50);
-
-      const stylesObj = (file?.styles ?? {}) as Record<string, any>;
-      const fillStyles = Object.values(stylesObj)
-        .filter((s: any) => s?.styleType === "FILL")
-        .map((s: any) => s?.name)
-        .filter((n: unknown): n is string => typeof n === "string" && n.length > 0);
-
-      let report = "=== Figma Raporu ===\n";
-      report += `Dosya adı: ${file?.name ?? "-"}\n`;
-      report += `Dosya anahtarı: ${fileKey}\n\n`;
-      report += "Sayfalar:\n";
-      if (pages.length === 0) {
-        report += "- (bulunamadı)\n";
-      } else {
-        for (const p of pages) report += `- ${p}\n`;
-      }
-
-      report += "\nRenk Paleti (ilk 50, en çok kullanılan):\n";
-      if (palette.length === 0) {
-        report += "- (bulunamadı)\n";
-      } else {
-        for (const c of palette) report += `- ${c.hex} (kullanım: ${c.count})\n`;
-      }
-
-      if (fillStyles.length > 0) {
-        report += "\nRenk Stilleri (FILL):\n";
-        for (const n of fillStyles) report += `- ${n}\n`;
-      }
-
-      return { content: [{ type: "text", text: report }] };
+      const report = await runAnalyzeReport(fileKey, token);
+      return { content: [{ type: "text", text: renderAnalyzeText(report) }] };
     }
   );
 
@@ -342,58 +214,8 @@ async function main(): Promise<void> {
       }
       const token = getFigmaToken(process.env);
       const { fileKey } = parseFigmaUrl(url);
-      const file = await figmaRequest<any>(`files/${encodeURIComponent(fileKey)}`, token);
-
-      const document = file?.document ?? {};
-      const pages: string[] = (Array.isArray(document?.children) ? document.children : [])
-        .map((p: any) => p?.name)
-        .filter((n: unknown): n is string => typeof n === "string" && n.length > 0);
-
-      const colorCountMap = new Map<string, number>();
-      traverse(document, (n: any) => {
-        const fills: any[] = Array.isArray(n?.fills) ? (n.fills as any[]) : [];
-        for (const paint of fills) {
-          if (!paint || paint.visible === false) continue;
-          if (paint.type !== "SOLID" || !paint.color) continue;
-          const { rgba } = rgbaToHex(paint.color, (paint.opacity ?? n?.opacity ?? 1) as number);
-          colorCountMap.set(rgba, (colorCountMap.get(rgba) ?? 0) + 1);
-        }
-      });
-
-      const palette = Array.from(colorCountMap.entries())
-        .map(([hex, count]) => ({ hex, count }))
-        .sort((a, b) => b.count - a.count)
-        .slice(0, 50);
-
-      const stylesObj = (file?.styles ?? {}) as Record<string, any>;
-      const fillStyles = Object.values(stylesObj)
-        .filter((s: any) => s?.styleType === "FILL")
-        .map((s: any) => s?.name)
-        .filter((n: unknown): n is string => typeof n === "string" && n.length > 0);
-
-      let report = "=== Figma Raporu ===\n";
-      report += `Dosya adı: ${file?.name ?? "-"}\n`;
-      report += `Dosya anahtarı: ${fileKey}\n\n`;
-      report += "Sayfalar:\n";
-      if (pages.length === 0) {
-        report += "- (bulunamadı)\n";
-      } else {
-        for (const p of pages) report += `- ${p}\n`;
-      }
-
-      report += "\nRenk Paleti (ilk 50, en çok kullanılan):\n";
-      if (palette.length === 0) {
-        report += "- (bulunamadı)\n";
-      } else {
-        for (const c of palette) report += `- ${c.hex} (kullanım: ${c.count})\n`;
-      }
-
-      if (fillStyles.length > 0) {
-        report += "\nRenk Stilleri (FILL):\n";
-        for (const n of fillStyles) report += `- ${n}\n`;
-      }
-
-      return { content: [{ type: "text", text: report }] };
+      const report = await runAnalyzeReport(fileKey, token);
+      return { content: [{ type: "text", text: renderAnalyzeText(report) }] };
     }
   );
 
@@ -405,116 +227,11 @@ async function main(): Promise<void> {
     async ({ url }: { url: string }) => {
       const token = getFigmaToken(process.env);
       const { fileKey } = parseFigmaUrl(url);
-      const file = await figmaRequest<any>(`files/${encodeURIComponent(fileKey)}`, token);
-
-      const componentsDict = (file?.components ?? {}) as Record<string, any>;
-      const componentSetsDict = (file?.componentSets ?? {}) as Record<string, any>;
-      const stylesDict = (file?.styles ?? {}) as Record<string, any>;
-
-      // Count INSTANCE nodes per componentId by traversing
-      const instanceCountByComponentId = new Map<string, number>();
-      traverse(file?.document, (n: any) => {
-        if (n?.type === "INSTANCE" && typeof n?.componentId === "string") {
-          const cid = n.componentId as string;
-          instanceCountByComponentId.set(cid, (instanceCountByComponentId.get(cid) ?? 0) + 1);
-        }
-      });
-
-      const components = Object.entries(componentsDict).map(([nodeId, c]) => ({
-        nodeId,
-        key: c?.key,
-        name: c?.name,
-        description: c?.description ?? undefined,
-        componentSetId: c?.componentSetId ?? undefined,
-        documentationLinks: c?.documentationLinks ?? undefined,
-        instanceCount: instanceCountByComponentId.get(nodeId) ?? 0,
-      }));
-
-      const componentSets = Object.entries(componentSetsDict).map(([nodeId, s]) => ({
-        nodeId,
-        key: s?.key,
-        name: s?.name,
-        description: s?.description ?? undefined,
-        documentationLinks: s?.documentationLinks ?? undefined,
-      }));
-
-      const styles = Object.entries(stylesDict).map(([styleId, s]) => ({
-        styleId,
-        name: s?.name,
-        styleType: s?.styleType,
-        description: s?.description ?? undefined,
-        key: s?.key ?? undefined,
-      }));
-
-      const result = {
-        fileName: file?.name ?? "-",
-        fileKey,
-        counts: {
-          components: components.length,
-          componentSets: componentSets.length,
-          styles: styles.length,
-        },
-        components,
-        componentSets,
-        styles,
-      };
-
+      const result = await runInventory(fileKey, token);
       return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
     }
   );
 
-  function simplifyPaints(paints: any[] | undefined, nodeOpacity: number): {
-    fills: Array<{ type: string; hex?: string; opacity?: number }>;
-  } {
-    const fills: Array<{ type: string; hex?: string; opacity?: number }> = [];
-    const items: any[] = Array.isArray(paints) ? paints : [];
-    for (const p of items) {
-      if (!p || p.visible === false) continue;
-      if (p.type === "SOLID" && p.color) {
-        const { rgba } = rgbaToHex(p.color, (p.opacity ?? nodeOpacity ?? 1) as number);
-        fills.push({ type: "SOLID", hex: rgba });
-      } else if (p.type === "IMAGE") {
-        fills.push({ type: "IMAGE", opacity: (p.opacity ?? nodeOpacity ?? 1) as number });
-      } else if (typeof p.type === "string") {
-        fills.push({ type: p.type });
-      }
-    }
-    return { fills };
-  }
-
-  function simplifyNode(node: any): any {
-    const type: string = node?.type ?? "NODE";
-    const base: any = {
-      id: node?.id,
-      name: node?.name,
-      type,
-    };
-    const w = node?.absoluteBoundingBox?.width ?? node?.size?.x ?? node?.width;
-    const h = node?.absoluteBoundingBox?.height ?? node?.size?.y ?? node?.height;
-    if (typeof w === "number" && typeof h === "number") {
-      base.size = { width: w, height: h };
-    }
-    const opacity: number = (node?.opacity ?? 1) as number;
-    const { fills } = simplifyPaints(node?.fills, opacity);
-    if (fills.length > 0) base.fills = fills;
-    if (node?.strokes?.length) base.strokes = node.strokes;
-    if (typeof node?.strokeWeight === "number") base.strokeWeight = node.strokeWeight;
-    if (typeof node?.cornerRadius === "number") base.cornerRadius = node.cornerRadius;
-    if (Array.isArray(node?.rectangleCornerRadii)) base.rectangleCornerRadii = node.rectangleCornerRadii;
-
-    if (type === "TEXT") {
-      base.characters = node?.characters ?? "";
-      if (node?.style) base.textStyle = node.style;
-    }
-    const kids: any[] = Array.isArray(node?.children) ? node.children : [];
-    const allowedTypes = new Set(["FRAME", "GROUP", "RECTANGLE", "ELLIPSE", "LINE", "POLYGON", "STAR", "VECTOR", "TEXT", "INSTANCE", "COMPONENT"]);
-    const simplifiedChildren = kids
-      .filter((c) => allowedTypes.has(c?.type))
-      .map((c) => simplifyNode(c));
-    if (simplifiedChildren.length > 0) base.children = simplifiedChildren;
-    return base;
-  }
-
   // figma_export_components_json_from_url: export COMPONENT nodes as simplified JSON
   mcp.tool(
     "figma_export_components_json_from_url",
@@ -523,17 +240,17 @@ async function main(): Promise<void> {
     async ({ url }: { url: string }) => {
       const token = getFigmaToken(process.env);
       const { fileKey } = parseFigmaUrl(url);
-      const file = await figmaRequest<any>(`files/${encodeURIComponent(fileKey)}`, token);
+      const file = await getFile(fileKey, token);
 
-      const components: any[] = [];
-      traverse(file?.document, (n: any) => {
-        if (n?.type === "COMPONENT") {
+      const components: SimplifiedNode[] = [];
+      traverse(file.document, (n: FigmaNode) => {
+        if (n.type === "COMPONENT") {
           components.push(simplifyNode(n));
         }
       });
 
       const payload = {
-        fileName: file?.name ?? "-",
+        fileName: file.name,
         fileKey,
         componentCount: components.length,
         components,
@@ -542,6 +259,635 @@ async function main(): Promise<void> {
     }
   );
 
+  // figma_export_design_tokens: FILL/TEXT/EFFECT/GRID styles as W3C Design Tokens (DTCG) JSON
+  mcp.tool(
+    "figma_export_design_tokens",
+    "Export the file's FILL, TEXT, EFFECT and GRID styles as a DTCG tokens.json (style name slashes become groups). Optionally write it to outputPath.",
+    { url: z.string(), outputPath: z.string().optional() },
+    async ({ url, outputPath }: { url: string; outputPath?: string | undefined }) => {
+      const token = getFigmaToken(process.env);
+      const { fileKey } = parseFigmaUrl(url);
+      const { tokens, counts, unresolved } = await exportDesignTokens(fileKey, token);
+      const json = `${JSON.stringify(tokens, null, 2)}\n`;
+      if (!outputPath) {
+        const content = [{ type: "text" as const, text: json }];
+        if (unresolved.length > 0) {
+          content.push({ type: "text", text: `Skipped styles:\n${JSON.stringify(unresolved, null, 2)}` });
+        }
+        return { content };
+      }
+      const written = await writeOutputFile(outputPath, json);
+      const summary = { written, counts, unresolved };
+      return { content: [{ type: "text", text: JSON.stringify(summary, null, 2) }] };
+    }
+  );
+
+  // figma_generate_css_theme: :root custom properties + Tailwind theme.extend from styles and radii
+  mcp.tool(
+    "figma_generate_css_theme",
+    "Generate a CSS :root custom-properties stylesheet and a Tailwind theme.extend config from the file's colors, text styles, corner radii and shadows. Writes to cssPath/tailwindPath when given.",
+    {
+      url: z.string(),
+      cssPath: z.string().optional(),
+      tailwindPath: z.string().optional(),
+      includeUnstyledColors: z.boolean().default(false),
+    },
+    async ({
+      url,
+      cssPath,
+      tailwindPath,
+      includeUnstyledColors,
+    }: {
+      url: string;
+      cssPath?: string | undefined;
+      tailwindPath?: string | undefined;
+      includeUnstyledColors: boolean;
+    }) => {
+      const token = getFigmaToken(process.env);
+      const { fileKey } = parseFigmaUrl(url);
+      const { css, tailwind, variableCount } = await generateCssTheme(fileKey, token, { includeUnstyledColors });
+      if (!cssPath && !tailwindPath) {
+        return {
+          content: [
+            { type: "text", text: css },
+            { type: "text", text: tailwind },
+          ],
+        };
+      }
+      const written: string[] = [];
+      if (cssPath) written.push(await writeOutputFile(cssPath, css));
+      if (tailwindPath) written.push(await writeOutputFile(tailwindPath, tailwind));
+      return { content: [{ type: "text", text: JSON.stringify({ written, variableCount }, null, 2) }] };
+    }
+  );
+
+  // figma_typography_audit: font combinations on TEXT nodes, stray ones get the nearest TEXT style
+  mcp.tool(
+    "figma_typography_audit",
+    "Audit TEXT nodes: every fontFamily/fontWeight/fontSize/lineHeight/letterSpacing combination with usage counts, pages and frames. Flags combinations not backed by a TEXT style and suggests the nearest one.",
+    { url: z.string(), onlyStray: z.boolean().default(false) },
+    async ({ url, onlyStray }: { url: string; onlyStray: boolean }) => {
+      const token = getFigmaToken(process.env);
+      const { fileKey } = parseFigmaUrl(url);
+      const audit = await runTypographyAudit(fileKey, token);
+      const result = onlyStray
+        ? { ...audit, combinations: audit.combinations.filter((c) => !c.matchingStyle) }
+        : audit;
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  // figma_spacing_audit: auto-layout gap/padding histogram and values off the base grid
+  mcp.tool(
+    "figma_spacing_audit",
+    "Audit auto-layout spacing: histogram of itemSpacing/counterAxisSpacing/padding values and every value not on the base grid (default 8), with its Page / Frame / Node path. Uses the URL's node-id as scope when present.",
+    {
+      url: z.string(),
+      grid: z.number().positive().default(8),
+      allow: z.array(z.number()).optional(),
+      maxOffenders: z.number().int().positive().default(200),
+    },
+    async ({
+      url,
+      grid,
+      allow,
+      maxOffenders,
+    }: {
+      url: string;
+      grid: number;
+      allow?: number[] | undefined;
+      maxOffenders: number;
+    }) => {
+      const token = getFigmaToken(process.env);
+      const { fileKey, nodeId } = parseFigmaUrl(url);
+      const result = await runSpacingAudit(fileKey, token, {
+        grid,
+        maxOffenders,
+        ...(allow ? { allow } : {}),
+        ...(nodeId ? { rootNodeId: nodeId } : {}),
+      });
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  // figma_color_consolidation: near-duplicate colors clustered by CIEDE2000
+  mcp.tool(
+    "figma_color_consolidation",
+    "Cluster solid fill/stroke colors by perceptual distance (CIEDE2000) and suggest merges: each cluster has a canonical color (preferably a FILL style) and the nodes using off-by-a-hair variants. Alpha is reported separately.",
+    {
+      url: z.string(),
+      threshold: z.number().positive().default(2),
+      maxNodesPerVariant: z.number().int().positive().default(50),
+    },
+    async ({ url, threshold, maxNodesPerVariant }: { url: string; threshold: number; maxNodesPerVariant: number }) => {
+      const token = getFigmaToken(process.env);
+      const { fileKey } = parseFigmaUrl(url);
+      const result = await runColorConsolidation(fileKey, token, { threshold, maxNodesPerVariant });
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  // figma_style_usage_report: where each style is used, unused styles, detached style values
+  mcp.tool(
+    "figma_style_usage_report",
+    "For every style in the file: how many nodes use it and where, which styles are never used, and nodes whose raw fill/stroke/text/effect values match a style exactly but are not linked to it (detached styles).",
+    {
+      url: z.string(),
+      maxUsagesPerStyle: z.number().int().positive().default(20),
+      maxDetached: z.number().int().positive().default(500),
+    },
+    async ({ url, maxUsagesPerStyle, maxDetached }: { url: string; maxUsagesPerStyle: number; maxDetached: number }) => {
+      const token = getFigmaToken(process.env);
+      const { fileKey } = parseFigmaUrl(url);
+      const result = await runStyleUsageReport(fileKey, token, { maxUsagesPerStyle, maxDetached });
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  // figma_contrast_audit: WCAG 2.x contrast of TEXT nodes against their effective background
+  mcp.tool(
+    "figma_contrast_audit",
+    "Check WCAG 2.x contrast for TEXT nodes against their effective solid background (ancestors and overlapping siblings underneath, with opacity compositing). Flags AA/AAA failures for normal vs large text. Uses the URL's node-id as scope when present.",
+    {
+      url: z.string(),
+      level: z.enum(["AA", "AAA"]).default("AA"),
+      includePassing: z.boolean().default(false),
+      maxResults: z.number().int().positive().default(500),
+    },
+    async ({
+      url,
+      level,
+      includePassing,
+      maxResults,
+    }: {
+      url: string;
+      level: "AA" | "AAA";
+      includePassing: boolean;
+      maxResults: number;
+    }) => {
+      const token = getFigmaToken(process.env);
+      const { fileKey, nodeId } = parseFigmaUrl(url);
+      const result = await runContrastAudit(fileKey, token, {
+        level,
+        includePassing,
+        maxResults,
+        ...(nodeId ? { rootNodeId: nodeId } : {}),
+      });
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  // figma_generate_react: React component + CSS module per frame/component (nested local instances included)
+  mcp.tool(
+    "figma_generate_react",
+    "Generate a React (TSX) component and CSS module from a frame or component: auto-layout becomes flexbox, fills/strokes/radii become CSS, TEXT keeps its typography. Nested instances of local components are generated as their own components when recursive; other instances (library components) become placeholder stubs so the output compiles. Takes the node from the URL's node-id or nodeId; writes into outputDir when given.",
+    {
+      url: z.string(),
+      nodeId: z.string().optional(),
+      outputDir: z.string().optional(),
+      recursive: z.boolean().default(true),
+    },
+    async ({
+      url,
+      nodeId,
+      outputDir,
+      recursive,
+    }: {
+      url: string;
+      nodeId?: string | undefined;
+      outputDir?: string | undefined;
+      recursive: boolean;
+    }) => {
+      const token = getFigmaToken(process.env);
+      const parsed = parseFigmaUrl(url);
+      const target = nodeId ?? parsed.nodeId;
+      if (!target) throw new Error("A node is required: pass a URL with node-id or the nodeId parameter");
+      const result = await runReactCodegen(parsed.fileKey, token, target, { recursive });
+      if (!outputDir) {
+        return {
+          content: [
+            ...result.files.map((f) => ({ type: "text" as const, text: `// ${f.path}\n${f.content}` })),
+            ...(result.missingComponents.length > 0
+              ? [{ type: "text" as const, text: `Stubbed components (not generated):\n${JSON.stringify(result.missingComponents, null, 2)}` }]
+              : []),
+          ],
+        };
+      }
+      const written: string[] = [];
+      for (const f of result.files) written.push(await writeOutputFile(join(outputDir, f.path), f.content));
+      const summary = { rootComponent: result.rootComponent, written, missingComponents: result.missingComponents };
+      return { content: [{ type: "text", text: JSON.stringify(summary, null, 2) }] };
+    }
+  );
+
+  // figma_component_props: props schema + TypeScript interfaces per component set, with variant matrix checks
+  mcp.tool(
+    "figma_component_props",
+    "Turn each component set into a props schema (variant properties as unions, BOOLEAN/TEXT/INSTANCE_SWAP properties) and a TypeScript props interface. Flags inconsistent variant matrices: missing or duplicate combinations, unknown property names/values with did-you-mean suggestions. A node-id in the URL limits it to that set; writes the interfaces to outputPath when given.",
+    {
+      url: z.string(),
+      outputPath: z.string().optional(),
+      maxMissingCombinations: z.number().int().positive().default(50),
+    },
+    async ({
+      url,
+      outputPath,
+      maxMissingCombinations,
+    }: {
+      url: string;
+      outputPath?: string | undefined;
+      maxMissingCombinations: number;
+    }) => {
+      const token = getFigmaToken(process.env);
+      const { fileKey, nodeId } = parseFigmaUrl(url);
+      const result = await runComponentProps(fileKey, token, {
+        maxMissingCombinations,
+        ...(nodeId ? { rootNodeId: nodeId } : {}),
+      });
+      if (!outputPath) return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+      const written = await writeOutputFile(outputPath, result.typescript);
+      const { typescript: _typescript, ...rest } = result;
+      return { content: [{ type: "text", text: JSON.stringify({ written, ...rest }, null, 2) }] };
+    }
+  );
+
+  // figma_list_versions: version history with labels, authors and dates
+  mcp.tool(
+    "figma_list_versions",
+    "List the file's version history (newest first): version id, label, description, author and date. Use the ids with figma_diff_versions.",
+    { url: z.string(), limit: z.number().int().positive().max(500).default(20) },
+    async ({ url, limit }: { url: string; limit: number }) => {
+      const token = getFigmaToken(process.env);
+      const { fileKey } = parseFigmaUrl(url);
+      const versions = await listVersions(fileKey, token, limit);
+      return { content: [{ type: "text", text: JSON.stringify({ fileKey, versions }, null, 2) }] };
+    }
+  );
+
+  // figma_diff_versions: node-level diff between two versions, grouped by page (JSON or Markdown)
+  mcp.tool(
+    "figma_diff_versions",
+    "Diff two versions of a file: added/removed/renamed/moved nodes, changed fills, strokes, text, sizes and style links, plus components and styles added/removed/renamed. Grouped by page. toVersion defaults to the current file. format=md gives a Markdown summary for tickets.",
+    {
+      url: z.string(),
+      fromVersion: z.string(),
+      toVersion: z.string().optional(),
+      format: z.enum(["json", "md"]).default("json"),
+      maxChangesPerPage: z.number().int().positive().default(200),
+    },
+    async ({
+      url,
+      fromVersion,
+      toVersion,
+      format,
+      maxChangesPerPage,
+    }: {
+      url: string;
+      fromVersion: string;
+      toVersion?: string | undefined;
+      format: "json" | "md";
+      maxChangesPerPage: number;
+    }) => {
+      const token = getFigmaToken(process.env);
+      const { fileKey } = parseFigmaUrl(url);
+      const diff = await diffVersions(fileKey, token, fromVersion, toVersion, { maxChangesPerPage });
+      const text = format === "md" ? renderDiffMarkdown(diff) : JSON.stringify(diff, null, 2);
+      return { content: [{ type: "text", text }] };
+    }
+  );
+
+  // figma_list_comments: comment threads with resolved state and the node/position they're pinned to
+  mcp.tool(
+    "figma_list_comments",
+    "List comment threads on the file (newest first) with author, date, resolved state, replies and the node/position each thread is pinned to. A node-id in the URL keeps only threads pinned to that node.",
+    { url: z.string(), includeResolved: z.boolean().default(true) },
+    async ({ url, includeResolved }: { url: string; includeResolved: boolean }) => {
+      const token = getFigmaToken(process.env);
+      const { fileKey, nodeId } = parseFigmaUrl(url);
+      const threads = await listCommentThreads(fileKey, token, { includeResolved, ...(nodeId ? { nodeId } : {}) });
+      return { content: [{ type: "text", text: JSON.stringify({ fileKey, threadCount: threads.length, threads }, null, 2) }] };
+    }
+  );
+
+  // figma_post_comment: reply to a thread, or start a new one pinned to a node
+  mcp.tool(
+    "figma_post_comment",
+    "Post a comment. With replyTo (a comment id) it replies to that thread; otherwise it starts a new thread, pinned to nodeId or the URL's node-id when present.",
+    {
+      url: z.string(),
+      message: z.string().min(1),
+      replyTo: z.string().optional(),
+      nodeId: z.string().optional(),
+    },
+    async ({
+      url,
+      message,
+      replyTo,
+      nodeId,
+    }: {
+      url: string;
+      message: string;
+      replyTo?: string | undefined;
+      nodeId?: string | undefined;
+    }) => {
+      const token = getFigmaToken(process.env);
+      const parsed = parseFigmaUrl(url);
+      const target = nodeId ?? parsed.nodeId;
+      const comment = await postComment(parsed.fileKey, token, {
+        message,
+        ...(replyTo ? { replyTo } : {}),
+        ...(target ? { nodeId: target } : {}),
+      });
+      return { content: [{ type: "text", text: JSON.stringify(comment, null, 2) }] };
+    }
+  );
+
+  // figma_post_findings: analyzer findings as pinned comments, deduplicated across runs
+  mcp.tool(
+    "figma_post_findings",
+    "Post audit findings as comments pinned to the offending nodes. Pass findings ({ nodeId, message, rule? }) from any analyzer, or name a built-in analyzer (contrast, spacing, detached-styles, color-variants) to run; grid is the spacing analyzer's base grid. Every comment carries a fingerprint, so re-running skips findings that were already posted (even if resolved). Use dryRun to preview.",
+    {
+      url: z.string(),
+      findings: z.array(z.object({ nodeId: z.string(), message: z.string(), rule: z.string().optional() })).optional(),
+      analyzer: z.enum(["contrast", "spacing", "detached-styles", "color-variants"]).optional(),
+      grid: z.number().positive().default(8),
+      dryRun: z.boolean().default(false),
+      maxComments: z.number().int().positive().default(50),
+    },
+    async ({
+      url,
+      findings,
+      analyzer,
+      grid,
+      dryRun,
+      maxComments,
+    }: {
+      url: string;
+      findings?: Array<{ nodeId: string; message: string; rule?: string | undefined }> | undefined;
+      analyzer?: "contrast" | "spacing" | "detached-styles" | "color-variants" | undefined;
+      grid: number;
+      dryRun: boolean;
+      maxComments: number;
+    }) => {
+      const token = getFigmaToken(process.env);
+      const { fileKey, nodeId } = parseFigmaUrl(url);
+      if (!findings && !analyzer) throw new Error("Pass findings or an analyzer to run");
+      const all: Finding[] = (findings ?? []).map((f) => ({ nodeId: f.nodeId, message: f.message, ...(f.rule ? { rule: f.rule } : {}) }));
+      if (analyzer) {
+        all.push(...(await findingsFromAnalyzer(analyzer, fileKey, token, { grid, ...(nodeId ? { rootNodeId: nodeId } : {}) })));
+      }
+      const result = await postFindings(fileKey, token, all, { dryRun, maxComments });
+      return { content: [{ type: "text", text: JSON.stringify({ fileKey, findings: all.length, ...result }, null, 2) }] };
+    }
+  );
+
+  // figma_export_assets: batch PNG/JPG/SVG/PDF export to disk with a file name template
+  mcp.tool(
+    "figma_export_assets",
+    "Export many nodes to disk as PNG/JPG/SVG/PDF. selector: ids (nodeIds), exportSettings (every node with export settings in Figma, using their format/scale/suffix) or children (children of the URL's node-id). Renders through /v1/images in batches and downloads into outputDir. nameTemplate placeholders: {name} {page} {frame} {id} {ext} {scale} {scaleSuffix} {suffix}.",
+    {
+      url: z.string(),
+      selector: z.enum(["ids", "exportSettings", "children"]).default("ids"),
+      nodeIds: z.array(z.string()).optional(),
+      formats: z.array(z.enum(["png", "jpg", "svg", "pdf"])).default(["png"]),
+      scales: z.array(z.number().min(0.01).max(4)).default([1]),
+      outputDir: z.string().default("assets"),
+      nameTemplate: z.string().optional(),
+      svgIncludeId: z.boolean().default(false),
+      svgOutlineText: z.boolean().default(true),
+    },
+    async ({
+      url,
+      selector,
+      nodeIds,
+      formats,
+      scales,
+      outputDir,
+      nameTemplate,
+      svgIncludeId,
+      svgOutlineText,
+    }: {
+      url: string;
+      selector: "ids" | "exportSettings" | "children";
+      nodeIds?: string[] | undefined;
+      formats: Array<"png" | "jpg" | "svg" | "pdf">;
+      scales: number[];
+      outputDir: string;
+      nameTemplate?: string | undefined;
+      svgIncludeId: boolean;
+      svgOutlineText: boolean;
+    }) => {
+      const token = getFigmaToken(process.env);
+      const { fileKey, nodeId } = parseFigmaUrl(url);
+      // With the default selector, a URL node-id alone is enough
+      const ids = nodeIds ?? (nodeId ? [nodeId] : []);
+      const result = await exportAssets(fileKey, token, {
+        selector,
+        nodeIds: ids,
+        formats,
+        scales,
+        outputDir,
+        svgIncludeId,
+        svgOutlineText,
+        ...(nameTemplate ? { nameTemplate } : {}),
+        ...(nodeId ? { parentNodeId: nodeId } : {}),
+      });
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  // figma_extract_icons: icon components → normalized SVGs, icons.json manifest and React icon components
+  mcp.tool(
+    "figma_extract_icons",
+    "Collect every icon component (name hints like icon, mdi:, material-symbols, solar: on the component, its set, page or frame), export them as SVG and normalize them (viewBox, currentColor for single-color icons, stripped ids). Writes svg/, react/ (one component per icon plus index.ts) and icons.json into outputDir.",
+    { url: z.string(), outputDir: z.string().default("icons"), currentColor: z.boolean().default(true) },
+    async ({ url, outputDir, currentColor }: { url: string; outputDir: string; currentColor: boolean }) => {
+      const token = getFigmaToken(process.env);
+      const { fileKey } = parseFigmaUrl(url);
+      const result = await extractIconLibrary(fileKey, token, { outputDir, currentColor });
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  // figma_export_strings: i18n string catalog of all UI copy (JSON, ICU MessageFormat, XLIFF)
+  mcp.tool(
+    "figma_export_strings",
+    "Collect the text of every visible TEXT node, grouped by page and view (top-level frame) and deduplicated, with keys from frame/layer names. Placeholders ({name}), numbers, dates and times become variables. format=catalog returns every string with its variables and locations; json/icu/xliff return that translation file. With outputDir, strings.json, strings.icu.json, strings.xlf and the key map strings.keys.json are written there. Keys stay stable across exports through the key map: keyMapPath (default: outputDir/strings.keys.json) is read first and strings exported before keep their key. A node-id in the URL limits it to that node.",
+    {
+      url: z.string(),
+      pageName: z.string().optional(),
+      format: z.enum(["catalog", "json", "icu", "xliff"]).default("catalog"),
+      outputDir: z.string().optional(),
+      keyMapPath: z.string().optional(),
+      sourceLanguage: z.string().default("en"),
+    },
+    async ({
+      url,
+      pageName,
+      format,
+      outputDir,
+      keyMapPath,
+      sourceLanguage,
+    }: {
+      url: string;
+      pageName?: string | undefined;
+      format: "catalog" | CatalogFormat;
+      outputDir?: string | undefined;
+      keyMapPath?: string | undefined;
+      sourceLanguage: string;
+    }) => {
+      const token = getFigmaToken(process.env);
+      const { fileKey, nodeId } = parseFigmaUrl(url);
+      const mapPath = keyMapPath ?? (outputDir ? join(outputDir, KEY_MAP_FILE_NAME) : undefined);
+      const previousKeys = mapPath ? await loadCatalogKeyMap(mapPath) : {};
+      const catalog = await runStringCatalog(
+        fileKey,
+        token,
+        {
+          ...(pageName ? { pageName } : {}),
+          ...(nodeId ? { rootNodeId: nodeId } : {}),
+        },
+        previousKeys
+      );
+      if (outputDir) {
+        const written = await writeStringCatalog(catalog, outputDir, { sourceLanguage, previousKeys });
+        return { content: [{ type: "text", text: JSON.stringify({ written, stats: catalog.stats }, null, 2) }] };
+      }
+      const text = format === "catalog" ? JSON.stringify(catalog, null, 2) : renderCatalog(catalog, format, { sourceLanguage });
+      return { content: [{ type: "text", text }] };
+    }
+  );
+
+  // figma_text_overflow_check: translated strings measured against their TEXT boxes
+  mcp.tool(
+    "figma_text_overflow_check",
+    'Estimate the rendered width of translated strings (font size, weight, letter spacing and per-font average glyph widths) and compare it with each TEXT node\'s box and auto-resize mode: fixed boxes that need more lines than fit, auto-height text that wraps past maxLines, auto-width text that grows past its parent. Translations are { "<key>": { "<locale>": "<text>" } } inline or from translationsPath (JSON); keys are figma_export_strings keys or node ids; pass keyMapPath (the export\'s strings.keys.json) so keys kept stable across exports resolve the same way. pageName and the URL\'s node-id only limit which text is measured. Checks German and Turkish unless locales are given.',
+    {
+      url: z.string(),
+      translations: z.record(z.record(z.string())).optional(),
+      translationsPath: z.string().optional(),
+      keyMapPath: z.string().optional(),
+      locales: z.array(z.string()).default(DEFAULT_OVERFLOW_LOCALES),
+      maxLines: z.number().int().min(1).optional(),
+      tolerance: z.number().min(0).max(1).default(0.05),
+      pageName: z.string().optional(),
+    },
+    async ({
+      url,
+      translations,
+      translationsPath,
+      keyMapPath,
+      locales,
+      maxLines,
+      tolerance,
+      pageName,
+    }: {
+      url: string;
+      translations?: Translations | undefined;
+      translationsPath?: string | undefined;
+      keyMapPath?: string | undefined;
+      locales: string[];
+      maxLines?: number | undefined;
+      tolerance: number;
+      pageName?: string | undefined;
+    }) => {
+      if (!translations && !translationsPath) throw new Error("Pass translations or translationsPath");
+      const token = getFigmaToken(process.env);
+      const { fileKey, nodeId } = parseFigmaUrl(url);
+      const source = translations ?? (await loadTranslations(translationsPath as string));
+      const result = await runTextOverflowCheck(fileKey, token, source, {
+        locales,
+        tolerance,
+        ...(keyMapPath ? { keyMap: await loadCatalogKeyMap(keyMapPath) } : {}),
+        ...(maxLines ? { maxLines } : {}),
+        ...(pageName ? { pageName } : {}),
+        ...(nodeId ? { rootNodeId: nodeId } : {}),
+      });
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  // figma_ui_looks: buttons or cards grouped by visual signature → distinct looks, their components, one-off outliers
+  mcp.tool(
+    "figma_ui_looks",
+    "Group every button (or card) the UI rules find by its look: height rounded to heightBucket px, top fill, corner radius, stroke and the label's text style. Returns how many distinct looks exist, the component behind each look (looks with a component or its instances are official), and the one-off nodes whose look matches no component, each with the closest official look and what differs. Layers inside a component or instance count as part of it. maxMembers caps the members and outliers listed per look (counts cover all). Answers \"how many button styles do I have\".",
+    {
+      url: z.string(),
+      category: z.enum(["button", "card"]).default("button"),
+      heightBucket: z.number().int().min(1).default(4),
+      maxMembers: z.number().int().min(0).default(20),
+      pageName: z.string().optional(),
+    },
+    async ({
+      url,
+      category,
+      heightBucket,
+      maxMembers,
+      pageName,
+    }: {
+      url: string;
+      category: "button" | "card";
+      heightBucket: number;
+      maxMembers: number;
+      pageName?: string | undefined;
+    }) => {
+      const token = getFigmaToken(process.env);
+      const { fileKey, nodeId } = parseFigmaUrl(url);
+      const result = await runUiVariants(fileKey, token, category, {
+        heightBucket,
+        maxMembers,
+        ...(pageName ? { pageName } : {}),
+        ...(nodeId ? { rootNodeId: nodeId } : {}),
+      });
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  // figma_query: CSS-like selector over the document tree → matching nodes with path and deep link
+  mcp.tool(
+    "figma_query",
+    'Find nodes with a CSS-like selector: node types (FRAME, TEXT, INSTANCE, PAGE, IMAGE, *), descendant and ">" combinators, attributes [name="Home"], [component^="Button/"], [fontSize<12], [fill="#FF0000"] with = != ^= $= *= < <= > >= (add " i" for case-insensitive), :has(...) and :not(...), comma for alternatives. Example: PAGE[name="Home"] FRAME > INSTANCE[component^="Button/"]. A node-id in the URL limits matches to that subtree.',
+    { url: z.string(), selector: z.string(), pageName: z.string().optional(), limit: z.number().int().min(1).default(200) },
+    async ({ url, selector, pageName, limit }: { url: string; selector: string; pageName?: string | undefined; limit: number }) => {
+      const token = getFigmaToken(process.env);
+      const { fileKey, nodeId } = parseFigmaUrl(url);
+      const result = await runNodeQuery(fileKey, token, selector, {
+        limit,
+        ...(pageName ? { pageName } : {}),
+        ...(nodeId ? { rootNodeId: nodeId } : {}),
+      });
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  // figma_cache_status: show what is cached on disk (per file key, with versions and sizes)
+  mcp.tool(
+    "figma_cache_status",
+    "Show the on-disk Figma response cache: cached files, versions, sizes. Optionally filter by fileKey.",
+    { fileKey: z.string().optional() },
+    async ({ fileKey }: { fileKey?: string | undefined }) => {
+      const status = await getCacheStatus(fileKey);
+      return { content: [{ type: "text", text: JSON.stringify(status, null, 2) }] };
+    }
+  );
+
+  // figma_cache_clear: drop cached responses for one file key, or everything
+  mcp.tool(
+    "figma_cache_clear",
+    "Clear the on-disk Figma response cache for a fileKey (or all files when omitted).",
+    { fileKey: z.string().optional() },
+    async ({ fileKey }: { fileKey?: string | undefined }) => {
+      const result = await clearCache(fileKey);
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  // figma://file/{fileKey}[/page/{pageName}|/node/{nodeId}] resources, with subscriptions
+  registerFigmaResources(mcp);
+
+  // design_system_audit, implement_frame, summarize_changes, accessibility_review
+  registerFigmaPrompts(mcp);
+
   const transport = new StdioServerTransport();
   await mcp.connect(transport);
 }
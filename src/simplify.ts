@@ -0,0 +1,128 @@
+// Simplified node trees: the subset of Figma node JSON that code generation needs
+// (size, paints, radii, text, auto-layout and sizing), without geometry and plugin noise.
+
+import { isNodeType, nodeBox, nodeChildren, nodeFills, nodeSize, nodeStrokes } from "./figma_nodes.js";
+import type { FigmaNode, Paint, TypeStyle } from "./figma_types.js";
+import { rgbaToHex } from "./figma_utils.js";
+
+export type SimplifiedPaint = { type: string; hex?: string; opacity?: number };
+
+export type SimplifiedLayout = {
+  mode: "HORIZONTAL" | "VERTICAL";
+  primaryAxisAlignItems: string;
+  counterAxisAlignItems: string;
+  itemSpacing: number;
+  padding: { top: number; right: number; bottom: number; left: number };
+  wrap?: true;
+  counterAxisSpacing?: number;
+};
+
+export type SimplifiedNode = {
+  id: string;
+  name: string;
+  type: string;
+  hidden?: true;
+  size?: { width: number; height: number };
+  // Offset from the parent's top-left corner, for children that are not placed by auto-layout
+  position?: { x: number; y: number };
+  opacity?: number;
+  fills?: SimplifiedPaint[];
+  strokes?: Paint[];
+  strokeWeight?: number;
+  cornerRadius?: number;
+  rectangleCornerRadii?: number[];
+  layout?: SimplifiedLayout;
+  sizingHorizontal?: string;
+  sizingVertical?: string;
+  layoutGrow?: number;
+  layoutAlign?: "STRETCH";
+  componentId?: string;
+  characters?: string;
+  textStyle?: TypeStyle;
+  children?: SimplifiedNode[];
+};
+
+const SIMPLIFIED_CHILD_TYPES = new Set(["FRAME", "GROUP", "RECTANGLE", "ELLIPSE", "LINE", "POLYGON", "STAR", "VECTOR", "TEXT", "INSTANCE", "COMPONENT", "BOOLEAN_OPERATION"]);
+
+/** Simplify already-visible paints (see nodeFills). */
+export function simplifyPaints(paints: Paint[], nodeOpacity: number): { fills: SimplifiedPaint[] } {
+  const fills: SimplifiedPaint[] = [];
+  for (const p of paints) {
+    if (p.type === "SOLID" && p.color) {
+      const { rgba } = rgbaToHex(p.color, p.opacity ?? nodeOpacity);
+      fills.push({ type: "SOLID", hex: rgba });
+    } else if (p.type === "IMAGE") {
+      fills.push({ type: "IMAGE", opacity: p.opacity ?? nodeOpacity });
+    } else {
+      fills.push({ type: p.type });
+    }
+  }
+  return { fills };
+}
+
+function simplifyLayout(node: FigmaNode): SimplifiedLayout | undefined {
+  if (node.layoutMode !== "HORIZONTAL" && node.layoutMode !== "VERTICAL") return undefined;
+  const layout: SimplifiedLayout = {
+    mode: node.layoutMode,
+    primaryAxisAlignItems: node.primaryAxisAlignItems ?? "MIN",
+    counterAxisAlignItems: node.counterAxisAlignItems ?? "MIN",
+    itemSpacing: node.itemSpacing ?? 0,
+    padding: {
+      top: node.paddingTop ?? 0,
+      right: node.paddingRight ?? 0,
+      bottom: node.paddingBottom ?? 0,
+      left: node.paddingLeft ?? 0,
+    },
+  };
+  if (node.layoutWrap === "WRAP") {
+    layout.wrap = true;
+    layout.counterAxisSpacing = node.counterAxisSpacing ?? 0;
+  }
+  return layout;
+}
+
+export function simplifyNode(node: FigmaNode, parent?: FigmaNode): SimplifiedNode {
+  const type = node.type;
+  const base: SimplifiedNode = {
+    id: node.id,
+    name: node.name,
+    type,
+  };
+  if (node.visible === false) base.hidden = true;
+  const size = nodeSize(node);
+  if (size) base.size = size;
+  // Children of non-auto-layout parents (and absolutely positioned ones) need their offset
+  const parentBox = nodeBox(parent);
+  const box = nodeBox(node);
+  if (parentBox && box && (!parent?.layoutMode || parent.layoutMode === "NONE" || node.layoutPositioning === "ABSOLUTE")) {
+    base.position = { x: box.x - parentBox.x, y: box.y - parentBox.y };
+  }
+  const opacity = node.opacity ?? 1;
+  if (opacity < 1) base.opacity = opacity;
+  // Node opacity is reported separately, so it is not folded into the fill alpha
+  const { fills } = simplifyPaints(nodeFills(node), 1);
+  if (fills.length > 0) base.fills = fills;
+  const strokes = nodeStrokes(node);
+  if (strokes.length > 0) base.strokes = strokes;
+  if (node.strokeWeight !== undefined) base.strokeWeight = node.strokeWeight;
+  if (node.cornerRadius !== undefined) base.cornerRadius = node.cornerRadius;
+  if (node.rectangleCornerRadii) base.rectangleCornerRadii = node.rectangleCornerRadii;
+
+  const layout = simplifyLayout(node);
+  if (layout) base.layout = layout;
+  if (node.layoutSizingHorizontal) base.sizingHorizontal = node.layoutSizingHorizontal;
+  if (node.layoutSizingVertical) base.sizingVertical = node.layoutSizingVertical;
+  if (node.layoutGrow !== undefined && node.layoutGrow > 0) base.layoutGrow = node.layoutGrow;
+  if (node.layoutAlign === "STRETCH") base.layoutAlign = "STRETCH";
+  if (isNodeType(node, "INSTANCE")) base.componentId = node.componentId;
+
+  if (isNodeType(node, "TEXT")) {
+    base.characters = node.characters;
+    if (node.style) base.textStyle = node.style;
+  }
+  const simplifiedChildren = nodeChildren(node)
+    .filter((c) => SIMPLIFIED_CHILD_TYPES.has(c.type))
+    .map((c) => simplifyNode(c, node));
+  if (simplifiedChildren.length > 0) base.children = simplifiedChildren;
+  return base;
+}
@@ -0,0 +1,133 @@
+// Spacing audit for auto-layout frames: histogram of itemSpacing, counterAxisSpacing and padding values,
+// plus every value that is not a multiple of the base grid (e.g. 4pt/8pt), with its node path.
+
+import { getFile } from "./figma_client.js";
+import type { FigmaNode } from "./figma_types.js";
+import { scopeRoots, traverseWithPath } from "./figma_utils.js";
+
+export type SpacingOptions = {
+  grid: number;
+  // Extra values accepted even though they are off-grid (e.g. 1 or 2 for hairline gaps).
+  allow?: number[];
+  // Limit the audit to this node and its descendants.
+  rootNodeId?: string;
+  maxOffenders?: number;
+};
+
+type SpacingKind = "gap" | "padding";
+
+type Offender = {
+  nodeId: string;
+  path: string;
+  property: string;
+  value: number;
+  suggested: number[];
+};
+
+type SpacingProperty = "itemSpacing" | "counterAxisSpacing" | `padding${"Top" | "Right" | "Bottom" | "Left"}`;
+
+const SPACING_PROPERTIES: Array<{ property: SpacingProperty; kind: SpacingKind }> = [
+  { property: "itemSpacing", kind: "gap" },
+  { property: "counterAxisSpacing", kind: "gap" },
+  { property: "paddingTop", kind: "padding" },
+  { property: "paddingRight", kind: "padding" },
+  { property: "paddingBottom", kind: "padding" },
+  { property: "paddingLeft", kind: "padding" },
+];
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+export function isOnGrid(value: number, grid: number, allow: number[] = []): boolean {
+  if (value === 0 || allow.includes(value)) return true;
+  const ratio = value / grid;
+  return Math.abs(ratio - Math.round(ratio)) < 1e-6;
+}
+
+function nearestGridValues(value: number, grid: number): number[] {
+  const lower = Math.floor(value / grid) * grid;
+  const upper = lower + grid;
+  if (value - lower === upper - value) return [lower, upper];
+  return [value - lower < upper - value ? lower : upper];
+}
+
+// A SPACE_BETWEEN row distributes space automatically, so its itemSpacing is not a design decision.
+function spacingValues(node: FigmaNode): Array<{ property: string; kind: SpacingKind; value: number }> {
+  const out: Array<{ property: string; kind: SpacingKind; value: number }> = [];
+  for (const { property, kind } of SPACING_PROPERTIES) {
+    const value = node[property];
+    if (typeof value !== "number") continue;
+    if (property === "itemSpacing" && node.primaryAxisAlignItems === "SPACE_BETWEEN") continue;
+    if (property === "counterAxisSpacing" && node.layoutWrap !== "WRAP") continue;
+    out.push({ property, kind, value: round2(value) });
+  }
+  return out;
+}
+
+export function auditSpacing(document: FigmaNode, options: SpacingOptions) {
+  const grid = options.grid > 0 ? options.grid : 8;
+  const allow = options.allow ?? [];
+  const maxOffenders = options.maxOffenders ?? 200;
+  const roots = scopeRoots(document, options.rootNodeId ? { rootNodeId: options.rootNodeId } : {});
+
+  const histograms: Record<SpacingKind | "all", Map<number, number>> = {
+    gap: new Map(),
+    padding: new Map(),
+    all: new Map(),
+  };
+  const offenders: Offender[] = [];
+  let offGridCount = 0;
+  let autoLayoutFrameCount = 0;
+
+  for (const root of roots) {
+    traverseWithPath(
+      root.node,
+      (n: FigmaNode, path: string[]) => {
+        if (n.layoutMode !== "HORIZONTAL" && n.layoutMode !== "VERTICAL") return;
+        autoLayoutFrameCount += 1;
+        for (const { property, kind, value } of spacingValues(n)) {
+          histograms[kind].set(value, (histograms[kind].get(value) ?? 0) + 1);
+          histograms.all.set(value, (histograms.all.get(value) ?? 0) + 1);
+          if (isOnGrid(value, grid, allow)) continue;
+          offGridCount += 1;
+          if (offenders.length < maxOffenders) {
+            offenders.push({
+              nodeId: n.id,
+              path: path.join(" / "),
+              property,
+              value,
+              suggested: nearestGridValues(value, grid),
+            });
+          }
+        }
+      },
+      root.parentPath
+    );
+  }
+
+  const toHistogram = (map: Map<number, number>) =>
+    Array.from(map.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([value, count]) => ({ value, count, onGrid: isOnGrid(value, grid, allow) }));
+
+  return {
+    grid,
+    allow,
+    autoLayoutFrameCount,
+    histogram: {
+      gap: toHistogram(histograms.gap),
+      padding: toHistogram(histograms.padding),
+      all: toHistogram(histograms.all),
+    },
+    offGridCount,
+    offenders,
+    truncated: offGridCount > offenders.length,
+  };
+}
+
+/** Fetch the file and audit auto-layout spacing (whole file, or below `rootNodeId`). */
+export async function runSpacingAudit(fileKey: string, token: string, options: SpacingOptions) {
+  const file = await getFile(fileKey, token);
+  return { fileName: file.name, fileKey, ...auditSpacing(file.document, options) };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { FileResponseSchema, parseFigmaResponse } from "./figma_types.js";
+import { buildStringCatalog, detectVariables } from "./string_catalog.js";
+
+const variablesOf = (text: string) => detectVariables(text).flatMap((p) => ("variable" in p ? [p.variable] : []));
+
+describe("detectVariables", () => {
+  it("marks {name} and {{name}} placeholders as named variables", () => {
+    expect(variablesOf("Hi {name}, welcome to {{ app.name }}")).toEqual([
+      { name: "name", kind: "named", example: "{name}" },
+      { name: "app_name", kind: "named", example: "{{ app.name }}" },
+    ]);
+  });
+
+  it("shares one variable between repeated placeholders", () => {
+    const [first, second] = variablesOf("{count} of {count}");
+    expect(first).toEqual({ name: "count", kind: "named", example: "{count}" });
+    expect(second).toBe(first);
+  });
+
+  it("recognizes dates, times and numbers and numbers them per kind", () => {
+    expect(variablesOf("Delivered on 12.03.2024 at 14:30, 3 of 12 items").map((v) => [v.name, v.kind, v.example])).toEqual([
+      ["date", "date", "12.03.2024"],
+      ["time", "time", "14:30"],
+      ["number", "number", "3"],
+      ["number2", "number", "12"],
+    ]);
+    expect(variablesOf("Since March 5th, 2023").map((v) => v.kind)).toEqual(["date"]);
+    expect(variablesOf("Total 1,299.00")).toEqual([{ name: "number", kind: "number", example: "1,299.00" }]);
+  });
+
+  it("leaves digits inside words alone", () => {
+    expect(variablesOf("Upgrade to v2 or H264 video")).toEqual([]);
+  });
+});
+
+describe("buildStringCatalog", () => {
+  const file = parseFigmaResponse(
+    FileResponseSchema,
+    {
+      name: "Demo",
+      document: {
+        id: "0:0",
+        name: "Document",
+        type: "DOCUMENT",
+        children: [
+          {
+            id: "0:1",
+            name: "Shop",
+            type: "CANVAS",
+            children: [
+              {
+                id: "1:1",
+                name: "Cart",
+                type: "FRAME",
+                children: [
+                  { id: "1:2", name: "Summary", type: "TEXT", characters: "You have 3 items, {name}" },
+                  { id: "1:3", name: "Checkout", type: "TEXT", characters: "Checkout" },
+                  { id: "1:4", name: "Hidden", type: "TEXT", characters: "Secret", visible: false },
+                ],
+              },
+              { id: "1:5", name: "Header", type: "FRAME", children: [{ id: "1:6", name: "Checkout", type: "TEXT", characters: "Checkout" }] },
+            ],
+          },
+        ],
+      },
+    },
+    "files/test"
+  );
+  const catalog = buildStringCatalog(file);
+
+  it("dedupes identical strings and skips hidden layers", () => {
+    expect(catalog.stats).toEqual({ textNodes: 3, strings: 2, withVariables: 1 });
+    const checkout = catalog.entries.find((e) => e.source === "Checkout");
+    expect(checkout?.occurrences.map((o) => o.nodeId)).toEqual(["1:3", "1:6"]);
+  });
+
+  it("renders variables as plain and ICU placeholders", () => {
+    const summary = catalog.entries.find((e) => e.source.startsWith("You have"));
+    expect(summary).toMatchObject({ message: "You have {number} items, {name}", icu: "You have {number, number} items, {name}" });
+  });
+});
@@ -0,0 +1,321 @@
+// i18n string catalog: the copy of every visible TEXT node, grouped by page and view (the top-level frames
+// the analyze report uses) and deduplicated by text. Each string gets a key from its view and layer names,
+// placeholder-like parts ({name}, numbers, dates, times) become variables, and the catalog renders as flat
+// JSON, ICU MessageFormat JSON or XLIFF 1.2. Keys are kept stable across exports by a key map
+// (strings.keys.json) written next to the catalog: a string that was exported before keeps its key even
+// when it moves into a second view or a same-named layer appears before it.
+
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { z } from "zod";
+import { getFile } from "./figma_client.js";
+import { isNodeType, nodeChildren } from "./figma_nodes.js";
+import type { FigmaFile, FigmaNode } from "./figma_types.js";
+import { scopeRoots, writeOutputFile, type ReportScope } from "./figma_utils.js";
+import { isViewNode, topLevelNodes } from "./file_reports.js";
+
+export type VariableKind = "named" | "number" | "date" | "time";
+
+export type StringVariable = { name: string; kind: VariableKind; example: string };
+
+export type StringOccurrence = { page: string; view: string | null; path: string; nodeId: string };
+
+export type CatalogEntry = {
+  key: string;
+  // The text as it is in Figma
+  source: string;
+  // Variables replaced by {name} placeholders
+  message: string;
+  // The same as an ICU MessageFormat pattern ({count, number}, {date, date}, ...)
+  icu: string;
+  variables: StringVariable[];
+  occurrences: StringOccurrence[];
+};
+
+export type CatalogFormat = "json" | "icu" | "xliff";
+
+export const CATALOG_FILE_NAMES: Record<CatalogFormat, string> = {
+  json: "strings.json",
+  icu: "strings.icu.json",
+  xliff: "strings.xlf",
+};
+
+export const KEY_MAP_FILE_NAME = "strings.keys.json";
+
+/** key → the string it was given to and the TEXT nodes it was on, from earlier exports. */
+export type CatalogKeyMap = Record<string, { source: string; nodeIds: string[] }>;
+
+type Part = { text: string } | { variable: StringVariable };
+
+const MONTHS =
+  "january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec";
+
+// Tried in this order at each position: explicit {name}/{{name}} placeholders, dates, times, then plain numbers
+const PLACEHOLDER = new RegExp(
+  [
+    String.raw`(?<named>\{\{?\s*[A-Za-z_][\w.]*\s*\}\}?)`,
+    String.raw`(?<date>\b\d{4}-\d{1,2}-\d{1,2}\b|\b\d{1,2}[./]\d{1,2}[./]\d{2,4}\b|\b(?:${MONTHS})\.? \d{1,2}(?:st|nd|rd|th)?(?:,? \d{4})?\b|\b\d{1,2} (?:${MONTHS})\.?(?: \d{4})?\b)`,
+    String.raw`(?<time>\b\d{1,2}:\d{2}(?:\s?[ap]\.?m\.?)?(?!\w))`,
+    String.raw`(?<number>(?<![\w.])\d+(?:[.,]\d+)*(?!\w))`,
+  ].join("|"),
+  "gi"
+);
+
+/** Split `text` into literal runs and variables. Repeated {name} placeholders share one variable. */
+export function detectVariables(text: string): Part[] {
+  const parts: Part[] = [];
+  const byName = new Map<string, StringVariable>();
+  const counts = new Map<VariableKind, number>();
+  let last = 0;
+  for (const match of text.matchAll(PLACEHOLDER)) {
+    const groups = match.groups ?? {};
+    const kind = (["named", "date", "time", "number"] as const).find((k) => groups[k] !== undefined);
+    if (!kind) continue;
+    const example = match[0];
+    let name: string;
+    if (kind === "named") {
+      name = example.replace(/[{}\s]/g, "").replace(/\W/g, "_");
+    } else {
+      const n = (counts.get(kind) ?? 0) + 1;
+      counts.set(kind, n);
+      name = n === 1 ? kind : `${kind}${n}`;
+    }
+    const variable = byName.get(name) ?? { name, kind, example };
+    byName.set(name, variable);
+    if (match.index > last) parts.push({ text: text.slice(last, match.index) });
+    parts.push({ variable });
+    last = match.index + example.length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last) });
+  return parts;
+}
+
+function partsVariables(parts: Part[]): StringVariable[] {
+  const out: StringVariable[] = [];
+  for (const part of parts) {
+    if ("variable" in part && !out.includes(part.variable)) out.push(part.variable);
+  }
+  return out;
+}
+
+function plainMessage(parts: Part[]): string {
+  return parts.map((p) => ("text" in p ? p.text : `{${p.variable.name}}`)).join("");
+}
+
+// ICU quoting: apostrophes are doubled, literal braces are quoted
+function icuLiteral(text: string): string {
+  return text.replace(/'/g, "''").replace(/[{}]+/g, (braces) => `'${braces}'`);
+}
+
+function icuMessage(parts: Part[]): string {
+  return parts
+    .map((p) => {
+      if ("text" in p) return icuLiteral(p.text);
+      const { name, kind } = p.variable;
+      return kind === "named" ? `{${name}}` : `{${name}, ${kind}}`;
+    })
+    .join("");
+}
+
+function slug(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+/, "")
+    .slice(0, 40)
+    .replace(/_+$/, "");
+}
+
+// Text layers are named after their content unless someone renamed them; only a real name says what the string is for
+function layerSlug(node: FigmaNode, text: string): string {
+  const renamed = node.name.trim() !== "" && node.name.trim() !== text;
+  const source = renamed ? node.name : text.split(/\s+/).slice(0, 4).join(" ");
+  return slug(source) || "text";
+}
+
+type Collected = { source: string; layer: string; contexts: Set<string>; occurrences: StringOccurrence[] };
+
+function walkText(node: FigmaNode, path: string[], visit: (text: FigmaNode & { characters: string }, path: string[]) => void): void {
+  if (node.visible === false) return;
+  const here = [...path, node.name || node.id];
+  if (isNodeType(node, "TEXT")) visit(node, here);
+  for (const child of nodeChildren(node)) walkText(child, here, visit);
+}
+
+const CatalogKeyMapSchema = z.record(z.object({ source: z.string(), nodeIds: z.array(z.string()) }));
+
+/** Validate a parsed key map ({ "<key>": { "source": "<text>", "nodeIds": [...] } }). */
+export function parseCatalogKeyMap(json: unknown, source: string): CatalogKeyMap {
+  const parsed = CatalogKeyMapSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid key map in ${source}: ${issue?.path.join(".") || "root"}: ${issue?.message}`);
+  }
+  return parsed.data;
+}
+
+/** The key map at `path`, or an empty one when the file does not exist yet (first export). */
+export async function loadCatalogKeyMap(path: string): Promise<CatalogKeyMap> {
+  if (!existsSync(path)) return {};
+  return parseCatalogKeyMap(JSON.parse(await readFile(path, "utf8")), path);
+}
+
+// Keys from the key map come back first: by identical text, then by a TEXT node the key was on (edited copy)
+function reusedKeys(collected: Collected[], previous: CatalogKeyMap): Map<Collected, string> {
+  const bySource = new Map<string, string>();
+  const byNode = new Map<string, string>();
+  for (const [key, entry] of Object.entries(previous)) {
+    if (!bySource.has(entry.source)) bySource.set(entry.source, key);
+    for (const id of entry.nodeIds) if (!byNode.has(id)) byNode.set(id, key);
+  }
+  const reused = new Map<Collected, string>();
+  const given = new Set<string>();
+  const give = (c: Collected, key: string | undefined) => {
+    if (key === undefined || given.has(key) || reused.has(c)) return;
+    reused.set(c, key);
+    given.add(key);
+  };
+  for (const c of collected) give(c, bySource.get(c.source));
+  for (const c of collected) for (const o of c.occurrences) give(c, byNode.get(o.nodeId));
+  return reused;
+}
+
+/**
+ * Every distinct visible string in the scope. Strings in `previousKeys` keep their key; new ones get
+ * `<view>.<layer>` (`common.<layer>` for strings used in more than one view, the page name for text outside
+ * any view), suffixed with their first node id when that key is taken. Keys in `previousKeys` are never
+ * given to a different string, so old translations cannot attach to new text.
+ */
+export function buildStringCatalog(file: FigmaFile, scope: ReportScope = {}, previousKeys: CatalogKeyMap = {}) {
+  const collected = new Map<string, Collected>();
+  let textNodes = 0;
+  for (const root of scopeRoots(file.document, scope)) {
+    for (const top of topLevelNodes(root, scope)) {
+      const view = isViewNode(top) ? top.name || top.id : null;
+      const basePath = top === root.node ? root.parentPath : [...root.parentPath, root.node.name || root.node.id];
+      walkText(top, basePath, (node, path) => {
+        const source = node.characters.trim();
+        if (!source) return;
+        textNodes += 1;
+        const entry = collected.get(source) ?? { source, layer: layerSlug(node, source), contexts: new Set(), occurrences: [] };
+        collected.set(source, entry);
+        entry.contexts.add(view === null ? `page:${root.page}` : `view:${root.page}/${view}`);
+        entry.occurrences.push({ page: root.page, view, path: path.join(" / "), nodeId: node.id });
+      });
+    }
+  }
+
+  const strings = Array.from(collected.values());
+  const reused = reusedKeys(strings, previousKeys);
+  const taken = new Set<string>(Object.keys(previousKeys));
+  const entries: CatalogEntry[] = strings.map((c) => {
+    const first = c.occurrences[0] as StringOccurrence;
+    let key = reused.get(c);
+    if (key === undefined) {
+      const prefix = c.contexts.size > 1 ? "common" : slug(first.view ?? first.page) || "page";
+      const base = `${prefix}.${c.layer}`;
+      const byNode = `${base}_${first.nodeId.replace(/\W+/g, "_")}`;
+      key = taken.has(base) ? byNode : base;
+      for (let n = 2; taken.has(key); n += 1) key = `${byNode}_${n}`;
+    }
+    taken.add(key);
+    const parts = detectVariables(c.source);
+    return {
+      key,
+      source: c.source,
+      message: plainMessage(parts),
+      icu: icuMessage(parts),
+      variables: partsVariables(parts),
+      occurrences: c.occurrences,
+    };
+  });
+
+  return {
+    fileName: file.name,
+    stats: { textNodes, strings: entries.length, withVariables: entries.filter((e) => e.variables.length > 0).length },
+    entries,
+  };
+}
+
+export type StringCatalog = ReturnType<typeof buildStringCatalog> & { fileKey: string };
+
+function byKey(entries: CatalogEntry[]): CatalogEntry[] {
+  return [...entries].sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+}
+
+function xmlEscape(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function xliffSource(entry: CatalogEntry): string {
+  return detectVariables(entry.source)
+    .map((p) => ("text" in p ? xmlEscape(p.text) : `<x id="${xmlEscape(p.variable.name)}" equiv-text="${xmlEscape(p.variable.example)}"/>`))
+    .join("");
+}
+
+/** XLIFF 1.2 with one trans-unit per key; variables are <x/> placeholders and every location is a note. */
+export function renderCatalogXliff(catalog: StringCatalog, sourceLanguage = "en"): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+    `  <file original="${xmlEscape(catalog.fileName)}" source-language="${xmlEscape(sourceLanguage)}" datatype="plaintext">`,
+    "    <body>",
+  ];
+  for (const entry of byKey(catalog.entries)) {
+    lines.push(`      <trans-unit id="${xmlEscape(entry.key)}">`);
+    lines.push(`        <source>${xliffSource(entry)}</source>`);
+    for (const o of entry.occurrences) lines.push(`        <note from="figma">${xmlEscape(`${o.path} (${o.nodeId})`)}</note>`);
+    lines.push("      </trans-unit>");
+  }
+  lines.push("    </body>", "  </file>", "</xliff>", "");
+  return lines.join("\n");
+}
+
+/** The catalog in one of the export formats, keys sorted so re-exports diff cleanly. */
+export function renderCatalog(catalog: StringCatalog, format: CatalogFormat, options: { sourceLanguage?: string } = {}): string {
+  if (format === "xliff") return renderCatalogXliff(catalog, options.sourceLanguage);
+  const messages = Object.fromEntries(byKey(catalog.entries).map((e) => [e.key, format === "icu" ? e.icu : e.message]));
+  return `${JSON.stringify(messages, null, 2)}\n`;
+}
+
+/**
+ * `previous` with this catalog's keys added or updated. Keys of strings that are gone (or outside this export's
+ * scope) stay, so they are not handed to other text later.
+ */
+export function mergeCatalogKeyMap(catalog: StringCatalog, previous: CatalogKeyMap = {}): CatalogKeyMap {
+  const merged: CatalogKeyMap = { ...previous };
+  for (const entry of catalog.entries) merged[entry.key] = { source: entry.source, nodeIds: entry.occurrences.map((o) => o.nodeId) };
+  return Object.fromEntries(Object.keys(merged).sort().map((key) => [key, merged[key] as CatalogKeyMap[string]]));
+}
+
+/**
+ * Write strings.json, strings.icu.json, strings.xlf and the updated strings.keys.json into `outputDir`.
+ * Returns the paths written.
+ */
+export async function writeStringCatalog(
+  catalog: StringCatalog,
+  outputDir: string,
+  options: { sourceLanguage?: string; previousKeys?: CatalogKeyMap } = {}
+) {
+  const written: string[] = [];
+  for (const format of Object.keys(CATALOG_FILE_NAMES) as CatalogFormat[]) {
+    written.push(await writeOutputFile(join(outputDir, CATALOG_FILE_NAMES[format]), renderCatalog(catalog, format, options)));
+  }
+  const keyMap = mergeCatalogKeyMap(catalog, options.previousKeys);
+  written.push(await writeOutputFile(join(outputDir, KEY_MAP_FILE_NAME), `${JSON.stringify(keyMap, null, 2)}\n`));
+  return written;
+}
+
+export async function runStringCatalog(
+  fileKey: string,
+  token: string,
+  scope: ReportScope = {},
+  previousKeys: CatalogKeyMap = {}
+): Promise<StringCatalog> {
+  const file = await getFile(fileKey, token);
+  const { fileName, ...rest } = buildStringCatalog(file, scope, previousKeys);
+  return { fileName, fileKey, ...rest };
+}
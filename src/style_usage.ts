@@ -0,0 +1,189 @@
+// Style usage map: for every style in `file.styles`, how many nodes link it (via the per-node `styles` map)
+// and where; which styles are never used; and detached styles, i.e. nodes whose raw fill/stroke/text/effect
+// values equal a style exactly without being linked to any style for that property.
+
+import { fillStyleColors, loadStyleSources, styleValueNode, type StyleSource } from "./design_tokens.js";
+import { getFile } from "./figma_client.js";
+import { isNodeType, nodeFills, nodeStrokes } from "./figma_nodes.js";
+import type { Effect, FigmaNode, Paint, StyleMeta } from "./figma_types.js";
+import { rgbaToHex, scopeRoots, traverseWithPath } from "./figma_utils.js";
+import { textStyleRefs, typeSpecFromStyle, typeSpecKey } from "./typography_audit.js";
+
+export type StyleUsageOptions = {
+  maxUsagesPerStyle?: number;
+  maxDetached?: number;
+  // Only look at this node and its descendants (usage counts and unused styles are then per scope).
+  rootNodeId?: string;
+};
+
+type Location = { nodeId: string; path: string; property: string };
+
+type DetachedNode = Location & { styleId: string; styleName: string; styleType: string };
+
+// The per-node `styles` map uses both singular and plural keys depending on the node type.
+const PROPERTY_BY_STYLE_KEY: Record<string, string> = {
+  fill: "fill",
+  fills: "fill",
+  stroke: "stroke",
+  strokes: "stroke",
+  text: "text",
+  effect: "effect",
+  effects: "effect",
+  grid: "grid",
+};
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+// `visible` is already filtered (nodeFills / nodeStrokes)
+function solidSignature(visible: Paint[]): string | undefined {
+  const paint = visible[0];
+  if (visible.length !== 1 || paint?.type !== "SOLID" || !paint.color) return undefined;
+  return `${rgbaToHex(paint.color).rgb}|${round2((paint.color.a ?? 1) * (paint.opacity ?? 1))}`;
+}
+
+export function effectSignature(effects: Effect[] | undefined): string | undefined {
+  const visible = (effects ?? []).filter((e) => e.visible !== false);
+  if (visible.length === 0) return undefined;
+  return visible
+    .map((e) =>
+      [
+        e.type,
+        e.color ? rgbaToHex(e.color, e.color.a ?? 1).rgba : "",
+        round2(e.offset?.x ?? 0),
+        round2(e.offset?.y ?? 0),
+        round2(e.radius ?? 0),
+        round2(e.spread ?? 0),
+      ].join(",")
+    )
+    .join(";");
+}
+
+function linkedProperties(node: FigmaNode): Set<string> {
+  const linked = new Set<string>();
+  for (const key of Object.keys(node.styles ?? {})) {
+    const property = PROPERTY_BY_STYLE_KEY[key];
+    if (property) linked.add(property);
+  }
+  return linked;
+}
+
+export function buildStyleUsage(
+  document: FigmaNode,
+  stylesDict: Record<string, StyleMeta>,
+  sources: StyleSource[],
+  options: StyleUsageOptions = {}
+) {
+  const maxUsages = options.maxUsagesPerStyle ?? 20;
+  const maxDetached = options.maxDetached ?? 500;
+
+  // Lookup tables from raw value signature to style, for detached detection
+  const fillBySignature = new Map<string, { styleId: string; name: string }>();
+  for (const c of fillStyleColors(sources)) {
+    const signature = `${c.hex}|${c.alpha}`;
+    if (!fillBySignature.has(signature)) fillBySignature.set(signature, { styleId: c.styleId, name: c.name });
+  }
+  const textBySpec = new Map<string, { styleId: string; name: string }>();
+  for (const ref of textStyleRefs(sources)) {
+    const key = typeSpecKey(ref.spec);
+    if (!textBySpec.has(key)) textBySpec.set(key, { styleId: ref.styleId, name: ref.name });
+  }
+  const effectBySignature = new Map<string, { styleId: string; name: string }>();
+  for (const source of sources) {
+    if (source.styleType !== "EFFECT" || !source.node) continue;
+    const signature = effectSignature(styleValueNode(source)?.effects);
+    if (signature && !effectBySignature.has(signature)) {
+      effectBySignature.set(signature, { styleId: source.styleId, name: source.name });
+    }
+  }
+
+  const usage = new Map<string, { count: number; pages: Set<string>; locations: Location[] }>();
+  const detached: DetachedNode[] = [];
+  let detachedCount = 0;
+  const detachedByStyle = new Map<string, number>();
+  const addDetached = (entry: DetachedNode) => {
+    detachedCount += 1;
+    detachedByStyle.set(entry.styleId, (detachedByStyle.get(entry.styleId) ?? 0) + 1);
+    if (detached.length < maxDetached) detached.push(entry);
+  };
+
+  for (const root of scopeRoots(document, options.rootNodeId ? { rootNodeId: options.rootNodeId } : {})) {
+    const pageName = root.page;
+    traverseWithPath(
+      root.node,
+      (n: FigmaNode, pathParts: string[]) => {
+        const path = pathParts.join(" / ");
+        for (const [key, styleId] of Object.entries(n.styles ?? {})) {
+          const entry = usage.get(styleId) ?? { count: 0, pages: new Set<string>(), locations: [] };
+          entry.count += 1;
+          entry.pages.add(pageName);
+          if (entry.locations.length < maxUsages) {
+            entry.locations.push({ nodeId: n.id, path, property: PROPERTY_BY_STYLE_KEY[key] ?? key });
+          }
+          usage.set(styleId, entry);
+        }
+
+        const linked = linkedProperties(n);
+        const base = { nodeId: n.id, path };
+        if (!linked.has("fill")) {
+          const match = fillBySignature.get(solidSignature(nodeFills(n)) ?? "");
+          if (match) addDetached({ ...base, property: "fill", styleId: match.styleId, styleName: match.name, styleType: "FILL" });
+        }
+        if (!linked.has("stroke")) {
+          const match = fillBySignature.get(solidSignature(nodeStrokes(n)) ?? "");
+          if (match) addDetached({ ...base, property: "stroke", styleId: match.styleId, styleName: match.name, styleType: "FILL" });
+        }
+        if (isNodeType(n, "TEXT") && !linked.has("text")) {
+          const spec = typeSpecFromStyle(n.style);
+          const match = spec ? textBySpec.get(typeSpecKey(spec)) : undefined;
+          if (match) addDetached({ ...base, property: "text", styleId: match.styleId, styleName: match.name, styleType: "TEXT" });
+        }
+        if (!linked.has("effect")) {
+          const match = effectBySignature.get(effectSignature(n.effects) ?? "");
+          if (match) addDetached({ ...base, property: "effect", styleId: match.styleId, styleName: match.name, styleType: "EFFECT" });
+        }
+      },
+      root.parentPath
+    );
+  }
+
+  const styles = Object.entries(stylesDict)
+    .map(([styleId, s]) => {
+      const u = usage.get(styleId);
+      return {
+        styleId,
+        name: s.name || styleId,
+        styleType: s.styleType || "-",
+        ...(s.remote ? { remote: true } : {}),
+        usageCount: u?.count ?? 0,
+        detachedCount: detachedByStyle.get(styleId) ?? 0,
+        pages: u ? Array.from(u.pages).sort() : [],
+        usages: u?.locations ?? [],
+      };
+    })
+    .sort((a, b) => a.styleType.localeCompare(b.styleType) || b.usageCount - a.usageCount || a.name.localeCompare(b.name));
+
+  const unusedStyles = styles
+    .filter((s) => s.usageCount === 0)
+    .map(({ styleId, name, styleType }) => ({ styleId, name, styleType }));
+
+  return {
+    counts: {
+      styles: styles.length,
+      unused: unusedStyles.length,
+      detachedNodes: detachedCount,
+    },
+    styles,
+    unusedStyles,
+    detached,
+    detachedTruncated: detachedCount > detached.length,
+  };
+}
+
+/** Fetch the file and style source nodes, then build the usage map and detached-style report (whole file, or below `rootNodeId`). */
+export async function runStyleUsageReport(fileKey: string, token: string, options: StyleUsageOptions = {}) {
+  const file = await getFile(fileKey, token);
+  const sources = await loadStyleSources(fileKey, file, token);
+  return { fileName: file.name, fileKey, ...buildStyleUsage(file.document, file.styles, sources, options) };
+}
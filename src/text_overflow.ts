@@ -0,0 +1,249 @@
+// Text overflow check for translations: each translated string is measured with the font metrics in
+// font_metrics.ts against the TEXT node(s) it belongs to, taking the node's auto-resize mode into account.
+// Fixed boxes overflow when the wrapped text needs more lines than fit, auto-height boxes when it wraps past
+// maxLines, auto-width boxes when they grow past their parent. Keys are string catalog keys or node ids.
+// Catalog keys always come from the whole file (and the export's key map), so a page or node scope only
+// narrows which TEXT nodes are measured, never what a key means.
+
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import { getFile } from "./figma_client.js";
+import { isNodeType, nodeBox, nodeChildren } from "./figma_nodes.js";
+import type { FigmaFile, FigmaNode, TextNode } from "./figma_types.js";
+import { normalizeNodeId, scopeRoots, traverse, type ReportScope } from "./figma_utils.js";
+import { estimateTextWidth, fontMetrics, wrapText, type TextFont } from "./font_metrics.js";
+import { buildStringCatalog, type CatalogKeyMap } from "./string_catalog.js";
+
+/** key → locale → translated string */
+export type Translations = Record<string, Record<string, string>>;
+
+export type OverflowOptions = ReportScope & {
+  // Locales to check; "de" also matches "de-DE", "de_AT", ...
+  locales?: string[];
+  // Line limit for auto-height text without its own maxLines (default: the lines the source text takes)
+  maxLines?: number;
+  // Share of the box width an estimate may exceed before it is flagged, to absorb estimation error
+  tolerance?: number;
+  // Key map of the string export the translations came from (strings.keys.json)
+  keyMap?: CatalogKeyMap;
+};
+
+export type OverflowReason = "too-many-lines" | "past-max-lines" | "wider-than-parent" | "word-too-wide";
+
+export type OverflowIssue = {
+  key: string;
+  locale: string;
+  text: string;
+  reason: OverflowReason;
+  detail: string;
+  nodeId: string;
+  page: string;
+  path: string;
+  font: string;
+  autoResize: string;
+  box: { width: number; height: number };
+  estimatedWidth: number;
+  lines: number;
+  maxLines: number;
+};
+
+export const DEFAULT_OVERFLOW_LOCALES = ["de", "tr"];
+
+const TranslationsSchema = z.record(z.record(z.string()));
+
+/** Validate a parsed translations file ({ "<key>": { "<locale>": "<text>" } }). */
+export function parseTranslations(json: unknown): Translations {
+  const parsed = TranslationsSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid translations: expected { "<key>": { "<locale>": "<text>" } } (${issue?.path.join(".") || "root"}: ${issue?.message})`);
+  }
+  return parsed.data;
+}
+
+export async function loadTranslations(path: string): Promise<Translations> {
+  return parseTranslations(JSON.parse(await readFile(path, "utf8")));
+}
+
+type IndexedText = { node: TextNode; parent: FigmaNode | undefined; page: string; path: string };
+
+function indexTextNodes(document: FigmaNode): Map<string, IndexedText> {
+  const index = new Map<string, IndexedText>();
+  const visit = (node: FigmaNode, parent: FigmaNode | undefined, page: string, path: string[]) => {
+    const here = [...path, node.name || node.id];
+    if (isNodeType(node, "TEXT")) index.set(node.id, { node, parent, page, path: here.join(" / ") });
+    for (const child of nodeChildren(node)) visit(child, node, page, here);
+  };
+  for (const page of nodeChildren(document)) visit(page, undefined, page.name || page.id, []);
+  return index;
+}
+
+function textFont(node: TextNode): TextFont {
+  const style = node.style ?? {};
+  return {
+    fontFamily: style.fontFamily ?? "",
+    fontSize: style.fontSize ?? 14,
+    fontWeight: style.fontWeight,
+    letterSpacing: style.letterSpacing,
+    textCase: style.textCase,
+  };
+}
+
+function lineHeight(node: TextNode): number {
+  const style = node.style ?? {};
+  return style.lineHeightPx ?? (style.fontSize ?? 14) * 1.2;
+}
+
+// Figma leaves textAutoResize out for fixed-size text
+function autoResizeMode(node: TextNode): string {
+  const mode = node.style?.textAutoResize ?? node.textAutoResize;
+  return typeof mode === "string" ? mode : "NONE";
+}
+
+function localeMatches(locale: string, wanted: string): boolean {
+  const l = locale.toLowerCase().replace(/_/g, "-");
+  const w = wanted.toLowerCase().replace(/_/g, "-");
+  return l === w || l.startsWith(`${w}-`);
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+type Misfit = Pick<OverflowIssue, "reason" | "detail" | "estimatedWidth" | "lines" | "maxLines">;
+
+// Why one translated string does not fit one TEXT node; empty when it fits
+function checkTextFit(entry: IndexedText, text: string, options: Pick<OverflowOptions, "maxLines" | "tolerance">): Misfit[] {
+  const { node, parent } = entry;
+  const box = nodeBox(node);
+  if (!box) return [];
+  const font = textFont(node);
+  const slack = 1 + (options.tolerance ?? 0.05);
+  const mode = autoResizeMode(node);
+  const estimatedWidth = round1(Math.max(...text.split(/\r?\n/).map((line) => estimateTextWidth(line, font))));
+  const explicitMax = node.style?.maxLines ?? undefined;
+
+  if (mode === "WIDTH_AND_HEIGHT") {
+    // The box grows to fit, so the question is whether it still fits inside its parent
+    const parentBox = parent ? nodeBox(parent) : undefined;
+    if (!parentBox) return [];
+    const room = parentBox.x + parentBox.width - box.x;
+    if (estimatedWidth <= room * slack) return [];
+    const lines = text.split(/\r?\n/).length;
+    return [
+      {
+        reason: "wider-than-parent",
+        detail: `grows to ~${estimatedWidth}px but only ${round1(room)}px are left in "${parent?.name}"`,
+        estimatedWidth,
+        lines,
+        maxLines: lines,
+      },
+    ];
+  }
+
+  // A zero-width box (a collapsed or placeholder layer) has no room to measure against
+  if (box.width <= 0) return [];
+  const width = box.width * slack;
+  const { lines, widestWord } = wrapText(text, width, font);
+  const issues: Misfit[] = [];
+  if (widestWord > width) {
+    issues.push({
+      reason: "word-too-wide",
+      detail: `a single word is ~${round1(widestWord)}px wide, the box ${box.width}px`,
+      estimatedWidth,
+      lines,
+      maxLines: explicitMax ?? lines,
+    });
+  }
+  if (mode === "HEIGHT") {
+    const maxLines = explicitMax ?? options.maxLines ?? wrapText(node.characters, width, font).lines;
+    if (lines > maxLines) {
+      issues.push({ reason: "past-max-lines", detail: `wraps to ${lines} lines, limit is ${maxLines}`, estimatedWidth, lines, maxLines });
+    }
+  } else {
+    // Fixed (or truncating) box: only as many lines as its height holds
+    const fitting = Math.max(1, Math.floor((box.height + 0.5) / lineHeight(node)));
+    const maxLines = Math.min(fitting, explicitMax ?? fitting);
+    if (lines > maxLines) {
+      const cut = mode === "TRUNCATE" || node.style?.textTruncation === "ENDING" ? " and gets truncated" : " and is clipped";
+      issues.push({ reason: "too-many-lines", detail: `needs ${lines} lines, the box holds ${maxLines}${cut}`, estimatedWidth, lines, maxLines });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Every translation in `locales` measured against the TEXT nodes of its key inside the scope. Keys are resolved
+ * through the file-wide string catalog (so the same keys as figma_export_strings work) or taken as node ids.
+ */
+export function checkTextOverflow(file: FigmaFile, translations: Translations, options: OverflowOptions = {}) {
+  const locales = options.locales && options.locales.length > 0 ? options.locales : DEFAULT_OVERFLOW_LOCALES;
+  const index = indexTextNodes(file.document);
+  const scope: ReportScope = {
+    ...(options.pageName ? { pageName: options.pageName } : {}),
+    ...(options.rootNodeId ? { rootNodeId: options.rootNodeId } : {}),
+  };
+  const inScope = new Set<string>();
+  for (const root of scopeRoots(file.document, scope)) traverse(root.node, (n: FigmaNode) => inScope.add(n.id));
+  const catalog = buildStringCatalog(file, {}, options.keyMap);
+  const nodesByKey = new Map(catalog.entries.map((e) => [e.key, e.occurrences.map((o) => o.nodeId)]));
+
+  const issues: OverflowIssue[] = [];
+  const unmappedKeys: string[] = [];
+  const unknownFonts = new Set<string>();
+  let checked = 0;
+  let outOfScope = 0;
+  for (const [key, perLocale] of Object.entries(translations)) {
+    const allNodeIds = nodesByKey.get(key) ?? (index.has(normalizeNodeId(key)) ? [normalizeNodeId(key)] : []);
+    if (allNodeIds.length === 0) {
+      unmappedKeys.push(key);
+      continue;
+    }
+    const nodeIds = allNodeIds.filter((id) => inScope.has(id));
+    if (nodeIds.length === 0) {
+      outOfScope += 1;
+      continue;
+    }
+    for (const [locale, text] of Object.entries(perLocale)) {
+      if (!locales.some((wanted) => localeMatches(locale, wanted))) continue;
+      for (const nodeId of nodeIds) {
+        const entry = index.get(nodeId);
+        if (!entry) continue;
+        checked += 1;
+        const font = textFont(entry.node);
+        if (!fontMetrics(font.fontFamily).known) unknownFonts.add(font.fontFamily || "(no font)");
+        const box = nodeBox(entry.node);
+        for (const issue of checkTextFit(entry, text, options)) {
+          issues.push({
+            key,
+            locale,
+            text,
+            ...issue,
+            nodeId,
+            page: entry.page,
+            path: entry.path,
+            font: `${font.fontFamily} ${font.fontWeight ?? 400} ${font.fontSize}px`,
+            autoResize: autoResizeMode(entry.node),
+            box: { width: box?.width ?? 0, height: box?.height ?? 0 },
+          });
+        }
+      }
+    }
+  }
+  return {
+    fileName: file.name,
+    locales,
+    checked,
+    issueCount: issues.length,
+    issues,
+    unmappedKeys,
+    // Keys that exist in the file but have no text inside the page/node scope
+    outOfScopeKeys: outOfScope,
+    // Measured with generic sans-serif metrics, so less exact
+    unknownFonts: Array.from(unknownFonts).sort(),
+  };
+}
+
+export async function runTextOverflowCheck(fileKey: string, token: string, translations: Translations, options: OverflowOptions = {}) {
+  const file = await getFile(fileKey, token);
+  const { fileName, ...rest } = checkTextOverflow(file, translations, options);
+  return { fileName, fileKey, ...rest };
+}
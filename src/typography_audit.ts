@@ -0,0 +1,202 @@
+// Typography audit: every fontFamily/fontWeight/fontSize/lineHeight/letterSpacing combination used by
+// TEXT nodes, with usage counts and locations. Combinations whose values do not match any TEXT style
+// are flagged as stray and get the nearest existing TEXT style as a suggestion.
+
+import { loadStyleSources, type StyleSource } from "./design_tokens.js";
+import { getFile } from "./figma_client.js";
+import { isNodeType, nodeChildren } from "./figma_nodes.js";
+import type { FigmaNode, StyleMeta, TypeStyle } from "./figma_types.js";
+import { traverse } from "./figma_utils.js";
+
+export type TypeSpec = {
+  fontFamily: string;
+  fontWeight: number;
+  fontSize: number;
+  lineHeight: number | "auto";
+  letterSpacing: number;
+};
+
+type TextStyleRef = { styleId: string; name: string; spec: TypeSpec };
+
+export type TypographyCombination = TypeSpec & {
+  count: number;
+  linkedCount: number;
+  unlinkedCount: number;
+  linkedStyles: string[];
+  pages: string[];
+  frames: string[];
+  matchingStyle?: string;
+  nearestStyle?: { styleId: string; name: string; distance: number; differences: string[] };
+  sampleNodeIds: string[];
+};
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+export function typeSpecFromStyle(style: TypeStyle | undefined): TypeSpec | undefined {
+  if (!style || style.fontSize === undefined) return undefined;
+  const lineHeight = style.lineHeightUnit === "INTRINSIC_%" || style.lineHeightPx === undefined ? "auto" : round2(style.lineHeightPx);
+  return {
+    fontFamily: style.fontFamily ?? "",
+    fontWeight: style.fontWeight ?? 400,
+    fontSize: round2(style.fontSize),
+    lineHeight,
+    letterSpacing: round2(style.letterSpacing ?? 0),
+  };
+}
+
+export function typeSpecKey(spec: TypeSpec): string {
+  return [spec.fontFamily, spec.fontWeight, spec.fontSize, spec.lineHeight, spec.letterSpacing].join("|");
+}
+
+export function describeTypeSpec(spec: TypeSpec): string {
+  const lh = spec.lineHeight === "auto" ? "auto" : `${spec.lineHeight}px`;
+  return `${spec.fontFamily} ${spec.fontWeight} ${spec.fontSize}px/${lh} ls ${spec.letterSpacing}px`;
+}
+
+// Weighted distance: a different family dominates, then size, weight, line height and tracking.
+export function typeSpecDistance(a: TypeSpec, b: TypeSpec): { distance: number; differences: string[] } {
+  const differences: string[] = [];
+  let distance = 0;
+  if (a.fontFamily.toLowerCase() !== b.fontFamily.toLowerCase()) {
+    distance += 100;
+    differences.push(`fontFamily ${a.fontFamily} → ${b.fontFamily}`);
+  }
+  if (a.fontSize !== b.fontSize) {
+    distance += Math.abs(a.fontSize - b.fontSize) * 4;
+    differences.push(`fontSize ${a.fontSize} → ${b.fontSize}`);
+  }
+  if (a.fontWeight !== b.fontWeight) {
+    distance += (Math.abs(a.fontWeight - b.fontWeight) / 100) * 3;
+    differences.push(`fontWeight ${a.fontWeight} → ${b.fontWeight}`);
+  }
+  if (a.lineHeight !== b.lineHeight) {
+    const la = a.lineHeight === "auto" ? a.fontSize * 1.2 : a.lineHeight;
+    const lb = b.lineHeight === "auto" ? b.fontSize * 1.2 : b.lineHeight;
+    distance += Math.abs(la - lb) + 1;
+    differences.push(`lineHeight ${a.lineHeight} → ${b.lineHeight}`);
+  }
+  if (a.letterSpacing !== b.letterSpacing) {
+    distance += Math.abs(a.letterSpacing - b.letterSpacing) * 2;
+    differences.push(`letterSpacing ${a.letterSpacing} → ${b.letterSpacing}`);
+  }
+  return { distance: round2(distance), differences };
+}
+
+export function textStyleRefs(sources: StyleSource[]): TextStyleRef[] {
+  const refs: TextStyleRef[] = [];
+  for (const source of sources) {
+    if (source.styleType !== "TEXT" || !source.node) continue;
+    let style: TypeStyle | undefined;
+    traverse(source.node, (n: FigmaNode) => {
+      if (!style && isNodeType(n, "TEXT")) style = n.style;
+    });
+    const spec = typeSpecFromStyle(style);
+    if (spec) refs.push({ styleId: source.styleId, name: source.name, spec });
+  }
+  return refs.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function auditTypography(
+  document: FigmaNode,
+  stylesDict: Record<string, StyleMeta>,
+  textStyles: TextStyleRef[]
+): {
+  textNodeCount: number;
+  mixedStyleNodeCount: number;
+  combinations: TypographyCombination[];
+  strayCombinations: number;
+} {
+  const byKey = new Map<string, TypographyCombination & { pageSet: Set<string>; frameSet: Set<string>; styleSet: Set<string> }>();
+  const styleByKey = new Map<string, TextStyleRef>();
+  for (const ref of textStyles) {
+    const key = typeSpecKey(ref.spec);
+    if (!styleByKey.has(key)) styleByKey.set(key, ref);
+  }
+  let textNodeCount = 0;
+  let mixedStyleNodeCount = 0;
+
+  for (const page of nodeChildren(document)) {
+    const pageName = page.name || "(page)";
+    for (const frame of nodeChildren(page)) {
+      const frameName = frame.name || "(frame)";
+      traverse(frame, (n: FigmaNode) => {
+        if (!isNodeType(n, "TEXT")) return;
+        const spec = typeSpecFromStyle(n.style);
+        if (!spec) return;
+        textNodeCount += 1;
+        if (n.styleOverrideTable && Object.keys(n.styleOverrideTable).length > 0) mixedStyleNodeCount += 1;
+        const key = typeSpecKey(spec);
+        let combo = byKey.get(key);
+        if (!combo) {
+          combo = {
+            ...spec,
+            count: 0,
+            linkedCount: 0,
+            unlinkedCount: 0,
+            linkedStyles: [],
+            pages: [],
+            frames: [],
+            sampleNodeIds: [],
+            pageSet: new Set(),
+            frameSet: new Set(),
+            styleSet: new Set(),
+          };
+          byKey.set(key, combo);
+        }
+        combo.count += 1;
+        const styleId = n.styles?.text;
+        if (styleId) {
+          combo.linkedCount += 1;
+          combo.styleSet.add(stylesDict[styleId]?.name || styleId);
+        } else {
+          combo.unlinkedCount += 1;
+        }
+        combo.pageSet.add(pageName);
+        combo.frameSet.add(`${pageName} / ${frameName}`);
+        if (combo.sampleNodeIds.length < 5) combo.sampleNodeIds.push(n.id);
+      });
+    }
+  }
+
+  const combinations: TypographyCombination[] = [];
+  for (const [key, c] of byKey) {
+    const { pageSet, frameSet, styleSet, ...rest } = c;
+    const combo: TypographyCombination = {
+      ...rest,
+      linkedStyles: Array.from(styleSet).sort(),
+      pages: Array.from(pageSet).sort(),
+      frames: Array.from(frameSet).sort(),
+    };
+    const exact = styleByKey.get(key);
+    if (exact) {
+      combo.matchingStyle = exact.name;
+    } else {
+      let best: TypographyCombination["nearestStyle"];
+      for (const ref of textStyles) {
+        const { distance, differences } = typeSpecDistance(combo, ref.spec);
+        if (!best || distance < best.distance) best = { styleId: ref.styleId, name: ref.name, distance, differences };
+      }
+      if (best) combo.nearestStyle = best;
+    }
+    combinations.push(combo);
+  }
+  combinations.sort((a, b) => b.count - a.count || typeSpecKey(a).localeCompare(typeSpecKey(b)));
+  const strayCombinations = combinations.filter((c) => !c.matchingStyle).length;
+  return { textNodeCount, mixedStyleNodeCount, combinations, strayCombinations };
+}
+
+/** Fetch the file and its TEXT styles, then audit every TEXT node. */
+export async function runTypographyAudit(fileKey: string, token: string) {
+  const file = await getFile(fileKey, token);
+  const sources = await loadStyleSources(fileKey, file, token);
+  const textStyles = textStyleRefs(sources);
+  const audit = auditTypography(file.document, file.styles, textStyles);
+  return {
+    fileName: file.name,
+    fileKey,
+    textStyles: textStyles.map((s) => ({ styleId: s.styleId, name: s.name, spec: describeTypeSpec(s.spec) })),
+    ...audit,
+  };
+}
@@ -0,0 +1,166 @@
+// UI element inspection shared by the CLI subcommands: classify UI elements per page and pull the visual
+// properties of button- and card-like nodes (fills, radius, stroke, text and content summary). What counts
+// as a button, card, ... comes from the rule set in ui_rules.ts; every result names the rule that fired and
+// its confidence. Icons are never counted as UI.
+
+import { getFile } from "./figma_client.js";
+import { hasVisibleStroke, isNodeType, nodeChildren, nodeFills, nodeSize, solidFills } from "./figma_nodes.js";
+import type { FigmaFile, FigmaNode } from "./figma_types.js";
+import { rgbaToHex, scopeRoots, type ReportScope } from "./figma_utils.js";
+import {
+  classificationName,
+  classifyNode,
+  DEFAULT_UI_RULE_SET,
+  inferCardRole,
+  isIconByRules,
+  loadUiRules,
+  type UiClassification,
+  type UiRuleSet,
+} from "./ui_rules.js";
+
+export type UiItem = { name: string; path: string; nodeId: string; rule: string; confidence: number };
+
+export type UiNode = { page: string; path: string; node: FigmaNode; ancestors: FigmaNode[]; classification: UiClassification };
+
+type Visit = (n: FigmaNode, path: string[], ancestors: FigmaNode[]) => void;
+
+// traverseWithPath plus the ancestor nodes, which card inspection needs to find the enclosing view
+function walk(node: FigmaNode, path: string[], ancestors: FigmaNode[], visit: Visit): void {
+  const here = [...path, node.name || node.id];
+  visit(node, here, ancestors);
+  for (const child of nodeChildren(node)) walk(child, here, [...ancestors, node], visit);
+}
+
+function walkScope(file: FigmaFile, scope: ReportScope, visit: (page: string, ...args: Parameters<Visit>) => void): void {
+  for (const root of scopeRoots(file.document, scope)) {
+    walk(root.node, root.parentPath, [], (n, path, ancestors) => visit(root.page, n, path, ancestors));
+  }
+}
+
+// Icons are classified too, but never reported as UI
+function classifyUi(file: FigmaFile, node: FigmaNode, rules: UiRuleSet): UiClassification | undefined {
+  const hit = classifyNode(node, rules, classificationName(node, file));
+  return hit && hit.category !== "icon" ? hit : undefined;
+}
+
+/** Every node in the scope the rules classify as `category`, in document order. */
+export function findUiNodes(file: FigmaFile, scope: ReportScope, rules: UiRuleSet, category: string): UiNode[] {
+  const found: UiNode[] = [];
+  walkScope(file, scope, (page, node, path, ancestors) => {
+    const classification = classifyUi(file, node, rules);
+    if (classification?.category === category) found.push({ page, path: path.join(" / "), node, ancestors, classification });
+  });
+  return found;
+}
+
+function solidFillHexes(node: FigmaNode): string[] {
+  return solidFills(node).map((p) => rgbaToHex(p.color, p.opacity ?? node.opacity ?? 1).rgba);
+}
+
+function shapeInfo(node: FigmaNode) {
+  return {
+    size: nodeSize(node),
+    fills: solidFillHexes(node),
+    cornerRadius: node.cornerRadius,
+    rectangleCornerRadii: node.rectangleCornerRadii,
+    stroke: hasVisibleStroke(node) ? { strokeWeight: node.strokeWeight } : undefined,
+  };
+}
+
+/** UI elements per page, grouped by category. Instances are classified by their component's name. */
+export function inspectUiElements(file: FigmaFile, scope: ReportScope = {}, rules: UiRuleSet = DEFAULT_UI_RULE_SET) {
+  const pages = new Map<string, Record<string, UiItem[]>>();
+  walkScope(file, scope, (page, n, path) => {
+    const hit = classifyUi(file, n, rules);
+    if (!hit) return;
+    const ui = pages.get(page) ?? {};
+    pages.set(page, ui);
+    const name = classificationName(n, file) || hit.category;
+    (ui[hit.category] ??= []).push({ name, path: path.join(" / "), nodeId: n.id, rule: hit.rule, confidence: hit.confidence });
+  });
+  return {
+    fileName: file.name,
+    rules: rules.source,
+    pages: Array.from(pages.entries()).map(([pageName, ui]) => ({ pageName, ui })),
+  };
+}
+
+export async function runUiInspection(fileKey: string, token: string, scope: ReportScope = {}, rules?: UiRuleSet) {
+  const ruleSet = rules ?? (await loadUiRules());
+  const file = await getFile(fileKey, token);
+  const { fileName, ...rest } = inspectUiElements(file, scope, ruleSet);
+  return { fileName, fileKey, ...rest };
+}
+
+function buttonInfo(node: FigmaNode) {
+  const texts = nodeChildren(node).flatMap((c) => (isNodeType(c, "TEXT") ? [c.characters] : []));
+  return { name: node.name, ...shapeInfo(node), text: { hasText: texts.length > 0, samples: texts.slice(0, 3) } };
+}
+
+/** Every node classified as a button, with its fills, radius, stroke and label text. */
+export function inspectButtons(file: FigmaFile, scope: ReportScope = {}, rules: UiRuleSet = DEFAULT_UI_RULE_SET) {
+  const buttons = findUiNodes(file, scope, rules, "button").map(({ page, path, node, classification }) => ({
+    page,
+    path,
+    nodeId: node.id,
+    classification,
+    info: buttonInfo(node),
+  }));
+  return { fileName: file.name, rules: rules.source, buttons };
+}
+
+export async function runButtonInspection(fileKey: string, token: string, scope: ReportScope = {}, rules?: UiRuleSet) {
+  const ruleSet = rules ?? (await loadUiRules());
+  const file = await getFile(fileKey, token);
+  const { fileName, ...rest } = inspectButtons(file, scope, ruleSet);
+  return { fileName, fileKey, ...rest };
+}
+
+function cardContent(node: FigmaNode, rules: UiRuleSet) {
+  let textCount = 0;
+  let imageFillCount = 0;
+  let iconCount = 0;
+  let instanceCount = 0;
+  const textSamples: string[] = [];
+  for (const child of nodeChildren(node)) {
+    if (isNodeType(child, "TEXT")) {
+      textCount += 1;
+      if (textSamples.length < 3) textSamples.push(child.characters);
+    }
+    if (child.type === "INSTANCE") {
+      instanceCount += 1;
+      if (isIconByRules(child.name, rules)) iconCount += 1;
+    }
+    imageFillCount += nodeFills(child).filter((p) => p.type === "IMAGE").length;
+  }
+  return { textCount, textSamples, imageFillCount, iconCount, instanceCount };
+}
+
+function cardInfo(node: FigmaNode, rules: UiRuleSet) {
+  return { name: node.name || "(card)", ...shapeInfo(node), content: cardContent(node, rules) };
+}
+
+/** Nodes classified as cards, with their visual properties, content summary, enclosing view and a role guess. */
+export function inspectCards(file: FigmaFile, scope: ReportScope = {}, rules: UiRuleSet = DEFAULT_UI_RULE_SET) {
+  const cards = findUiNodes(file, scope, rules, "card").map(({ page, path, node, ancestors, classification }) => {
+    const view = ancestors.find((a) => a.type === "FRAME");
+    const viewName = view?.name || (node.type === "FRAME" ? node.name : "") || page;
+    return {
+      page,
+      view: viewName,
+      path,
+      nodeId: node.id,
+      role: inferCardRole(viewName, node.name, rules),
+      classification,
+      info: cardInfo(node, rules),
+    };
+  });
+  return { fileName: file.name, rules: rules.source, cards };
+}
+
+export async function runCardInspection(fileKey: string, token: string, scope: ReportScope = {}, rules?: UiRuleSet) {
+  const ruleSet = rules ?? (await loadUiRules());
+  const file = await getFile(fileKey, token);
+  const { fileName, ...rest } = inspectCards(file, scope, ruleSet);
+  return { fileName, fileKey, ...rest };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { FigmaNodeSchema } from "./figma_types.js";
+import { classifyNode, DEFAULT_UI_RULE_SET, inferCardRole, isIconByRules, parseUiRulesConfig } from "./ui_rules.js";
+
+const fill = [{ type: "SOLID", color: { r: 0.2, g: 0.4, b: 1, a: 1 } }];
+const box = (width: number, height: number) => ({ absoluteBoundingBox: { x: 0, y: 0, width, height } });
+const node = (raw: Record<string, unknown>) => FigmaNodeSchema.parse({ id: "1:1", type: "FRAME", ...raw });
+const label = { id: "1:2", name: "Label", type: "TEXT", characters: "Go" };
+
+describe("classifyNode", () => {
+  it("classifies by name and records the rule that fired", () => {
+    expect(classifyNode(node({ name: "Primary Button" }))).toEqual({ category: "button", rule: "button-name", confidence: 0.9 });
+    expect(classifyNode(node({ name: "Search field" }))?.category).toBe("input");
+  });
+
+  it("prefers the named rules over the icon rule", () => {
+    expect(classifyNode(node({ name: "Icon Button", type: "INSTANCE", componentId: "9:1" }))?.category).toBe("button");
+    expect(classifyNode(node({ name: "icon/close", type: "INSTANCE", componentId: "9:2" }))?.rule).toBe("icon-name");
+  });
+
+  it("only applies the icon rule to icon node types", () => {
+    expect(classifyNode(node({ name: "Icon container", ...box(24, 24) }))).toBeUndefined();
+  });
+
+  it("falls back to structure when the name says nothing", () => {
+    const button = node({ name: "Frame 12", fills: fill, ...box(120, 40), children: [label] });
+    expect(classifyNode(button)).toEqual({ category: "button", rule: "button-structure", confidence: 0.6 });
+    expect(classifyNode(node({ name: "Frame 13", ...box(120, 40), children: [label] }))).toBeUndefined();
+  });
+
+  it("matches regex name patterns on word boundaries", () => {
+    expect(classifyNode(node({ name: "Tab bar" }))?.category).toBe("tabs");
+    expect(classifyNode(node({ name: "Tablet layout" }))).toBeUndefined();
+  });
+});
+
+describe("parseUiRulesConfig", () => {
+  it("adds config rules by priority and replaces built-ins with the same id", () => {
+    const rules = parseUiRulesConfig({
+      rules: [
+        { id: "fab", category: "button", priority: 70, namePatterns: ["fab"] },
+        { id: "card-name", category: "tile", priority: 50, namePatterns: ["card"] },
+      ],
+    });
+    expect(classifyNode(node({ name: "FAB" }), rules)?.rule).toBe("fab");
+    expect(classifyNode(node({ name: "Product card" }), rules)?.category).toBe("tile");
+  });
+
+  it("starts from scratch with extendDefaults: false", () => {
+    const rules = parseUiRulesConfig({ extendDefaults: false, rules: [{ id: "fab", category: "button", namePatterns: ["fab"] }] });
+    expect(classifyNode(node({ name: "Primary Button" }), rules)).toBeUndefined();
+    expect(isIconByRules("icon/close", rules)).toBe(false);
+  });
+
+  it("rejects unknown fields and broken patterns with the source", () => {
+    expect(() => parseUiRulesConfig({ rules: [{ id: "x", category: "button", colour: "red" }] }, "rules.json")).toThrow(
+      /Invalid UI rules in rules\.json: rules\.0/
+    );
+    expect(() => parseUiRulesConfig({ rules: [{ id: "x", category: "button", namePatterns: ["/(/"] }] })).toThrow("Invalid name pattern /(/");
+  });
+});
+
+describe("inferCardRole", () => {
+  it("matches view or card names, config roles first, else the default role", () => {
+    expect(inferCardRole("Shop / Home", "Card")).toBe("Home card");
+    expect(inferCardRole("Feed", "Product tile")).toBe("Product card");
+    expect(inferCardRole("Feed", "Card", DEFAULT_UI_RULE_SET)).toBe("Generic card");
+    const rules = parseUiRulesConfig({ roles: [{ role: "Closet card", viewPatterns: ["home"] }], defaultRole: "Other" });
+    expect(inferCardRole("Home", "Card", rules)).toBe("Closet card");
+    expect(inferCardRole("Feed", "Card", rules)).toBe("Other");
+  });
+});
@@ -0,0 +1,275 @@
+// Rule engine behind the UI classification in ui_inspection.ts. A rule assigns a category (button, input,
+// checkbox, card, ...) to nodes matching its name patterns and/or structural predicates (types, size ranges,
+// child counts, fill/stroke); the highest-priority matching rule wins and the result records which rule
+// fired and with what confidence. Card roles work the same way on view and card names.
+// The built-in rules can be extended or overridden from a project config file: FIGMA_UI_RULES, or
+// figma-ui-rules.json in the working directory.
+
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { z } from "zod";
+import { hasVisibleStroke, isNodeType, nodeChildren, nodeSize, solidFills } from "./figma_nodes.js";
+import type { FigmaFile, FigmaNode } from "./figma_types.js";
+import { ICON_NAME_HINTS } from "./figma_utils.js";
+
+const RangeSchema = z.object({ min: z.number().optional(), max: z.number().optional() }).strict();
+
+// Name patterns are case-insensitive substrings, or regular expressions written as "/pattern/flags"
+const UiRuleSchema = z
+  .object({
+    id: z.string().min(1),
+    category: z.string().min(1),
+    priority: z.number().default(0),
+    confidence: z.number().min(0).max(1).optional(),
+    namePatterns: z.array(z.string()).optional(),
+    excludeNamePatterns: z.array(z.string()).optional(),
+    types: z.array(z.string()).optional(),
+    width: RangeSchema.optional(),
+    height: RangeSchema.optional(),
+    children: RangeSchema.optional(),
+    textChildren: RangeSchema.optional(),
+    iconChildren: RangeSchema.optional(),
+    cornerRadius: RangeSchema.optional(),
+    paint: z.enum(["fill", "stroke", "fill-or-stroke", "none"]).optional(),
+  })
+  .strict();
+
+const RoleRuleSchema = z
+  .object({
+    role: z.string().min(1),
+    viewPatterns: z.array(z.string()).optional(),
+    namePatterns: z.array(z.string()).optional(),
+  })
+  .strict();
+
+const UiRulesConfigSchema = z
+  .object({
+    // false drops the built-in rules/roles instead of merging with them
+    extendDefaults: z.boolean().default(true),
+    rules: z.array(UiRuleSchema).default([]),
+    roles: z.array(RoleRuleSchema).default([]),
+    defaultRole: z.string().optional(),
+  })
+  .strict();
+
+export type UiRule = z.input<typeof UiRuleSchema>;
+export type RoleRule = z.input<typeof RoleRuleSchema>;
+export type UiRulesConfig = z.input<typeof UiRulesConfigSchema>;
+
+export type UiClassification = { category: string; rule: string; confidence: number };
+
+type Range = z.infer<typeof RangeSchema>;
+type CompiledRule = z.infer<typeof UiRuleSchema> & { names?: RegExp[]; excludes?: RegExp[] };
+type CompiledRole = { role: string; views: RegExp[]; names: RegExp[] };
+
+export type UiRuleSet = {
+  rules: CompiledRule[];
+  roles: CompiledRole[];
+  defaultRole: string;
+  // Where the rules came from: "built-in" or the config file path
+  source: string;
+};
+
+const CONTAINER_TYPES = ["FRAME", "GROUP", "COMPONENT", "INSTANCE", "RECTANGLE"];
+
+const named = (id: string, category: string, priority: number, namePatterns: string[]): UiRule => ({
+  id,
+  category,
+  priority,
+  confidence: 0.9,
+  types: CONTAINER_TYPES,
+  namePatterns,
+});
+
+const ICON_TYPES = ["INSTANCE", "COMPONENT", "COMPONENT_SET", "VECTOR", "BOOLEAN_OPERATION"];
+
+export const DEFAULT_UI_RULES: UiRule[] = [
+  // Below the named rules, so "Icon Button" and "Button / Icon=Left" stay buttons
+  { id: "icon-name", category: "icon", priority: 40, confidence: 0.9, types: ICON_TYPES, namePatterns: ICON_NAME_HINTS },
+  named("button-name", "button", 60, ["button", "btn"]),
+  named("input-name", "input", 58, ["input", "textfield", "text field", "text-field", "search field"]),
+  named("checkbox-name", "checkbox", 57, ["checkbox", "check box"]),
+  named("radio-name", "radio", 57, ["radio"]),
+  named("switch-name", "switch", 57, ["switch", "toggle"]),
+  named("dropdown-name", "dropdown", 56, ["dropdown", "select", "combobox"]),
+  named("tabs-name", "tabs", 55, ["/\\btabs?\\b/i", "tab bar", "tabbar", "segmented"]),
+  named("modal-name", "modal", 55, ["modal", "dialog", "sheet", "drawer"]),
+  named("toast-name", "toast", 55, ["toast", "snackbar"]),
+  named("list-item-name", "list item", 52, ["list item", "list-item", "listitem", "/\\bcell\\b/i"]),
+  named("chip-name", "chip", 51, ["chip", "badge", "pill", "/\\btag\\b/i"]),
+  named("card-name", "card", 50, ["card"]),
+  named("navigation-name", "navigation", 45, ["navbar", "nav bar", "navigation", "header", "footer"]),
+  named("avatar-name", "avatar", 45, ["avatar"]),
+  named("slider-name", "slider", 45, ["slider", "stepper", "progress"]),
+  {
+    id: "button-structure",
+    category: "button",
+    priority: 12,
+    confidence: 0.6,
+    types: CONTAINER_TYPES,
+    paint: "fill",
+    textChildren: { min: 1 },
+    height: { min: 28, max: 64 },
+  },
+  {
+    id: "input-structure",
+    category: "input",
+    priority: 11,
+    confidence: 0.55,
+    types: CONTAINER_TYPES,
+    paint: "fill-or-stroke",
+    width: { min: 200 },
+    height: { min: 34, max: 72 },
+    textChildren: { max: 1 },
+    iconChildren: { max: 2 },
+  },
+  {
+    id: "card-structure",
+    category: "card",
+    priority: 10,
+    confidence: 0.5,
+    types: CONTAINER_TYPES,
+    paint: "fill",
+    width: { min: 200 },
+    height: { min: 120 },
+    children: { min: 2 },
+  },
+];
+
+// Role guesses from the view (outermost frame) and card names; app-specific roles belong in the config file
+export const DEFAULT_CARD_ROLES: RoleRule[] = [
+  { role: "Home card", viewPatterns: ["home"] },
+  { role: "Calendar card", viewPatterns: ["calendar"], namePatterns: ["calendar"] },
+  { role: "Login card", viewPatterns: ["login", "sign in"], namePatterns: ["login", "sign in"] },
+  { role: "Sign-up card", viewPatterns: ["register", "sign up", "signup"], namePatterns: ["register", "sign up", "signup"] },
+  { role: "Product card", viewPatterns: ["product", "shop"], namePatterns: ["product"] },
+  { role: "Verification card", viewPatterns: ["verification", "otp"], namePatterns: ["verification", "otp", "sms"] },
+  { role: "Profile card", viewPatterns: ["profile", "account"], namePatterns: ["profile"] },
+];
+
+function compilePattern(pattern: string): RegExp {
+  const literal = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  if (!literal) return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+  try {
+    // test() on a global or sticky regex is stateful, so those flags are dropped
+    return new RegExp(literal[1] ?? "", (literal[2] ?? "").replace(/[gy]/g, ""));
+  } catch (err) {
+    throw new Error(`Invalid name pattern ${pattern}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+function compile(config: z.infer<typeof UiRulesConfigSchema>, source: string): UiRuleSet {
+  const baseRules = config.extendDefaults ? DEFAULT_UI_RULES.map((r) => UiRuleSchema.parse(r)) : [];
+  // A config rule with a built-in rule's id replaces it
+  const overridden = new Set(config.rules.map((r) => r.id));
+  const rules = [...baseRules.filter((r) => !overridden.has(r.id)), ...config.rules]
+    .map((r, order) => ({
+      rule: {
+        ...r,
+        ...(r.namePatterns ? { names: r.namePatterns.map(compilePattern) } : {}),
+        ...(r.excludeNamePatterns ? { excludes: r.excludeNamePatterns.map(compilePattern) } : {}),
+      },
+      order,
+    }))
+    .sort((a, b) => b.rule.priority - a.rule.priority || a.order - b.order)
+    .map((r) => r.rule);
+  // Config roles are tried before the built-in ones
+  const roles = [...config.roles, ...(config.extendDefaults ? DEFAULT_CARD_ROLES : [])].map((r) => ({
+    role: r.role,
+    views: (r.viewPatterns ?? []).map(compilePattern),
+    names: (r.namePatterns ?? []).map(compilePattern),
+  }));
+  return { rules, roles, defaultRole: config.defaultRole ?? "Generic card", source };
+}
+
+export const DEFAULT_UI_RULE_SET: UiRuleSet = compile(UiRulesConfigSchema.parse({}), "built-in");
+
+/** Validate a parsed rules config and merge it with the built-in rules. */
+export function parseUiRulesConfig(json: unknown, source = "config"): UiRuleSet {
+  const parsed = UiRulesConfigSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid UI rules in ${source}: ${issue?.path.join(".") || "root"}: ${issue?.message}`);
+  }
+  return compile(parsed.data, source);
+}
+
+/**
+ * The rule set for this project: `path`, else FIGMA_UI_RULES, else ./figma-ui-rules.json when it exists,
+ * else the built-in rules.
+ */
+export async function loadUiRules(path?: string): Promise<UiRuleSet> {
+  const explicit = path || process.env.FIGMA_UI_RULES;
+  const file = explicit ? resolve(explicit) : resolve("figma-ui-rules.json");
+  if (!explicit && !existsSync(file)) return DEFAULT_UI_RULE_SET;
+  let json: unknown;
+  try {
+    json = JSON.parse(await readFile(file, "utf8"));
+  } catch (err) {
+    throw new Error(`Cannot read UI rules from ${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return parseUiRulesConfig(json, file);
+}
+
+const inRange = (value: number | undefined, range: Range | undefined) =>
+  !range || (value !== undefined && (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max));
+
+/** Whether `name` matches one of the rule set's icon rules. */
+export function isIconByRules(name: string, rules: UiRuleSet = DEFAULT_UI_RULE_SET): boolean {
+  return rules.rules.some((r) => r.category === "icon" && !!r.names?.some((re) => re.test(name)));
+}
+
+function matchesRule(rule: CompiledRule, node: FigmaNode, name: string, rules: UiRuleSet): boolean {
+  if (rule.types && !rule.types.includes(node.type)) return false;
+  if (rule.names && !rule.names.some((re) => re.test(name))) return false;
+  if (rule.excludes?.some((re) => re.test(name))) return false;
+  const size = nodeSize(node);
+  if ((rule.width || rule.height) && !size) return false;
+  if (!inRange(size?.width, rule.width) || !inRange(size?.height, rule.height)) return false;
+  if (!inRange(node.cornerRadius, rule.cornerRadius)) return false;
+  const kids = nodeChildren(node);
+  if (!inRange(kids.length, rule.children)) return false;
+  if (rule.textChildren && !inRange(kids.filter((c) => c.type === "TEXT").length, rule.textChildren)) return false;
+  if (rule.iconChildren && !inRange(kids.filter((c) => isIconByRules(c.name, rules)).length, rule.iconChildren)) return false;
+  if (rule.paint) {
+    const fill = solidFills(node).length > 0;
+    const stroke = hasVisibleStroke(node);
+    if (rule.paint === "fill" && !fill) return false;
+    if (rule.paint === "stroke" && !stroke) return false;
+    if (rule.paint === "fill-or-stroke" && !fill && !stroke) return false;
+    if (rule.paint === "none" && (fill || stroke)) return false;
+  }
+  return true;
+}
+
+/**
+ * The category of the first (highest-priority) rule that matches `node`, or undefined. Name patterns are
+ * tested against `name` (for instances, pass the component's name).
+ */
+export function classifyNode(node: FigmaNode, rules: UiRuleSet = DEFAULT_UI_RULE_SET, name: string = node.name): UiClassification | undefined {
+  for (const rule of rules.rules) {
+    if (!matchesRule(rule, node, name, rules)) continue;
+    const confidence = rule.confidence ?? (rule.names ? 0.9 : 0.6);
+    return { category: rule.category, rule: rule.id, confidence };
+  }
+  return undefined;
+}
+
+/** The first role whose view or card name patterns match, else the rule set's default role. */
+export function inferCardRole(viewName: string, cardName: string, rules: UiRuleSet = DEFAULT_UI_RULE_SET): string {
+  const hit = rules.roles.find((r) => r.views.some((re) => re.test(viewName)) || r.names.some((re) => re.test(cardName)));
+  return hit?.role ?? rules.defaultRole;
+}
+
+/**
+ * Name a node is classified by: for instances and components the component's name, prefixed with its
+ * component set's name for variants ("Button / Size=Large"), else the node's own name.
+ */
+export function classificationName(node: FigmaNode, file: Pick<FigmaFile, "components" | "componentSets">): string {
+  const componentId = isNodeType(node, "INSTANCE") ? node.componentId : node.type === "COMPONENT" ? node.id : undefined;
+  const component = componentId ? file.components[componentId] : undefined;
+  if (!component?.name) return node.name;
+  const set = component.componentSetId ? file.componentSets[component.componentSetId] : undefined;
+  return set?.name ? `${set.name} / ${component.name}` : component.name;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { FigmaNodeSchema } from "./figma_types.js";
+import { signatureDistance, visualSignature, type VisualSignature } from "./ui_variants.js";
+
+const primary: VisualSignature = {
+  height: 40,
+  fill: "#3366FF",
+  radius: 8,
+  stroke: null,
+  text: { fontFamily: "Inter", fontWeight: 600, fontSize: 16, color: "#FFFFFF" },
+};
+
+describe("signatureDistance", () => {
+  it("is zero with no differences for the same look", () => {
+    expect(signatureDistance(primary, { ...primary })).toEqual({ distance: 0, differences: [] });
+  });
+
+  it("lists each property that differs", () => {
+    const other: VisualSignature = { ...primary, height: 48, radius: [8, 8, 0, 0], stroke: { color: "#000000", weight: 1 } };
+    const { distance, differences } = signatureDistance(primary, other);
+    expect(differences).toEqual(["height 40 → 48", "radius 8 → [8,8,0,0]", "stroke none → 1px #000000"]);
+    // height 8/2, radius |8 - 4|/2 + 0.5, stroke added 4
+    expect(distance).toBe(10.5);
+  });
+
+  it("ranks a slightly different fill closer than a different color", () => {
+    const near = signatureDistance(primary, { ...primary, fill: "#3468FF" });
+    const far = signatureDistance(primary, { ...primary, fill: "#E02020" });
+    expect(near.distance).toBeLessThan(1);
+    expect(far.distance).toBeGreaterThan(10 * near.distance);
+    expect(signatureDistance(primary, { ...primary, fill: "image" }).distance).toBe(15);
+  });
+
+  it("weighs text size and weight, and a missing label", () => {
+    const text = primary.text as NonNullable<VisualSignature["text"]>;
+    expect(signatureDistance(primary, { ...primary, text: { ...text, fontSize: 14, fontWeight: 400 } }).distance).toBe(4);
+    expect(signatureDistance(primary, { ...primary, text: { ...text, fontFamily: "inter" } }).distance).toBe(0);
+    expect(signatureDistance(primary, { ...primary, text: null }).distance).toBe(5);
+  });
+});
+
+describe("visualSignature", () => {
+  it("reads height bucket, top fill, radius, stroke and the first text style", () => {
+    const node = FigmaNodeSchema.parse({
+      id: "1:1",
+      name: "Button",
+      type: "FRAME",
+      absoluteBoundingBox: { x: 0, y: 0, width: 120, height: 41 },
+      fills: [
+        { type: "SOLID", color: { r: 1, g: 1, b: 1, a: 1 } },
+        { type: "SOLID", color: { r: 0.2, g: 0.4, b: 1, a: 1 } },
+      ],
+      strokes: [{ type: "SOLID", color: { r: 0, g: 0, b: 0, a: 1 } }],
+      strokeWeight: 2,
+      cornerRadius: 8,
+      children: [
+        { id: "1:2", name: "Hidden", type: "TEXT", characters: "x", visible: false },
+        {
+          id: "1:3",
+          name: "Label",
+          type: "TEXT",
+          characters: "Go",
+          style: { fontFamily: "Inter", fontWeight: 600, fontSize: 16 },
+          fills: [{ type: "SOLID", color: { r: 1, g: 1, b: 1, a: 1 } }],
+        },
+      ],
+    });
+    expect(visualSignature(node)).toEqual({
+      height: 40,
+      fill: "#3366FF",
+      radius: 8,
+      stroke: { color: "#000000", weight: 2 },
+      text: { fontFamily: "Inter", fontWeight: 600, fontSize: 16, color: "#FFFFFF" },
+    });
+  });
+});
@@ -0,0 +1,248 @@
+// Visual-signature clustering of buttons and cards: every node the UI rules classify as the category is
+// reduced to its look (height bucket, fill, corner radius, stroke, label text style) and nodes with the same
+// look are grouped. Looks that contain a component or its instances are official variants; looks made only
+// of plain frames are one-offs, each with the closest official look as a suggestion. Layers inside a
+// component or instance belong to that component's look and are not clustered on their own.
+
+import { deltaE } from "./color_math.js";
+import { getFile } from "./figma_client.js";
+import { isNodeType, nodeChildren, nodeFills, nodeSize, solidFills, solidStrokes } from "./figma_nodes.js";
+import type { FigmaFile, FigmaNode, TextNode } from "./figma_types.js";
+import { rgbaToHex, type ReportScope } from "./figma_utils.js";
+import { findUiNodes } from "./ui_inspection.js";
+import { classificationName, loadUiRules, type UiRuleSet } from "./ui_rules.js";
+
+export type VisualSignature = {
+  height: number;
+  // Topmost visible fill: a hex color, "image", "gradient" or "none"
+  fill: string;
+  // One radius, or four (top-left, top-right, bottom-right, bottom-left) when they differ
+  radius: number | number[];
+  stroke: { color: string; weight: number } | null;
+  // Style of the first text layer inside
+  text: { fontFamily: string; fontWeight: number; fontSize: number; color: string } | null;
+};
+
+export type LookKind = "component" | "instances" | "one-off";
+
+type MemberKind = "component" | "instance" | "one-off";
+
+export type LookMember = { nodeId: string; name: string; page: string; path: string; kind: MemberKind; component?: string };
+
+export type ClosestLook = { look: string; component?: string; distance: number; differences: string[] };
+
+export type VariantOptions = ReportScope & {
+  // Heights are rounded to this many px before comparing (default 4)
+  heightBucket?: number;
+  // Members listed per look, and outliers listed per one-off look; counts always cover all of them (default 20)
+  maxMembers?: number;
+};
+
+export type VisualLook = {
+  id: string;
+  label: string;
+  signature: VisualSignature;
+  kind: LookKind;
+  count: number;
+  // Components behind the look's instances/definitions, most used first
+  components: Array<{ name: string; count: number }>;
+  members: LookMember[];
+  closestOfficial?: ClosestLook;
+};
+
+function firstText(node: FigmaNode): TextNode | undefined {
+  for (const child of nodeChildren(node)) {
+    if (child.visible === false) continue;
+    if (isNodeType(child, "TEXT")) return child;
+    const nested = firstText(child);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+function fillLabel(node: FigmaNode): string {
+  const fills = nodeFills(node);
+  const top = fills[fills.length - 1];
+  if (!top) return "none";
+  if (top.type === "SOLID" && top.color) return rgbaToHex(top.color, top.opacity ?? 1).rgba;
+  return top.type === "IMAGE" ? "image" : top.type === "SOLID" ? "none" : "gradient";
+}
+
+function nodeRadius(node: FigmaNode): number | number[] {
+  const radii = node.rectangleCornerRadii;
+  if (radii && radii.length === 4 && radii.some((r) => r !== radii[0])) return radii;
+  return node.cornerRadius ?? radii?.[0] ?? 0;
+}
+
+/** The look of a node, with its height rounded to `heightBucket` px. */
+export function visualSignature(node: FigmaNode, heightBucket = 4): VisualSignature {
+  const height = nodeSize(node)?.height ?? 0;
+  const stroke = solidStrokes(node)[0];
+  const text = firstText(node);
+  const textFill = text ? solidFills(text)[0] : undefined;
+  return {
+    height: Math.round(height / heightBucket) * heightBucket,
+    fill: fillLabel(node),
+    radius: nodeRadius(node),
+    stroke: stroke ? { color: rgbaToHex(stroke.color, stroke.opacity ?? 1).rgba, weight: node.strokeWeight ?? 1 } : null,
+    text:
+      text && text.style
+        ? {
+            fontFamily: text.style.fontFamily ?? "",
+            fontWeight: text.style.fontWeight ?? 400,
+            fontSize: text.style.fontSize ?? 0,
+            color: textFill ? rgbaToHex(textFill.color, textFill.opacity ?? 1).rgba : "none",
+          }
+        : null,
+  };
+}
+
+export function describeSignature(s: VisualSignature): string {
+  const radius = Array.isArray(s.radius) ? s.radius.join("/") : String(s.radius);
+  const stroke = s.stroke ? `${s.stroke.weight}px ${s.stroke.color}` : "no stroke";
+  const text = s.text ? `${s.text.fontFamily || "(no font)"} ${s.text.fontWeight} ${s.text.fontSize}px ${s.text.color}` : "no text";
+  return `h${s.height} · fill ${s.fill} · r${radius} · ${stroke} · ${text}`;
+}
+
+const meanRadius = (r: number | number[]) => (Array.isArray(r) ? r.reduce((a, b) => a + b, 0) / r.length : r);
+
+function colorDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.startsWith("#") && b.startsWith("#")) return deltaE(a, b);
+  return 30;
+}
+
+// Fill and height weigh most, then text, radius and stroke; 0 means the same look.
+export function signatureDistance(a: VisualSignature, b: VisualSignature): { distance: number; differences: string[] } {
+  const differences: string[] = [];
+  let distance = 0;
+  if (a.height !== b.height) {
+    distance += Math.abs(a.height - b.height) / 2;
+    differences.push(`height ${a.height} → ${b.height}`);
+  }
+  if (a.fill !== b.fill) {
+    distance += colorDistance(a.fill, b.fill) / 2;
+    differences.push(`fill ${a.fill} → ${b.fill}`);
+  }
+  if (JSON.stringify(a.radius) !== JSON.stringify(b.radius)) {
+    distance += Math.abs(meanRadius(a.radius) - meanRadius(b.radius)) / 2 + 0.5;
+    differences.push(`radius ${JSON.stringify(a.radius)} → ${JSON.stringify(b.radius)}`);
+  }
+  const strokeA = a.stroke ? `${a.stroke.weight}px ${a.stroke.color}` : "none";
+  const strokeB = b.stroke ? `${b.stroke.weight}px ${b.stroke.color}` : "none";
+  if (strokeA !== strokeB) {
+    distance += a.stroke && b.stroke ? colorDistance(a.stroke.color, b.stroke.color) / 5 + Math.abs(a.stroke.weight - b.stroke.weight) : 4;
+    differences.push(`stroke ${strokeA} → ${strokeB}`);
+  }
+  const textA = a.text ? `${a.text.fontFamily} ${a.text.fontWeight} ${a.text.fontSize}px ${a.text.color}` : "none";
+  const textB = b.text ? `${b.text.fontFamily} ${b.text.fontWeight} ${b.text.fontSize}px ${b.text.color}` : "none";
+  if (textA !== textB) {
+    if (a.text && b.text) {
+      if (a.text.fontFamily.toLowerCase() !== b.text.fontFamily.toLowerCase()) distance += 5;
+      distance += Math.abs(a.text.fontSize - b.text.fontSize) + Math.abs(a.text.fontWeight - b.text.fontWeight) / 100;
+      distance += colorDistance(a.text.color, b.text.color) / 5;
+    } else {
+      distance += 5;
+    }
+    differences.push(`text ${textA} → ${textB}`);
+  }
+  return { distance: Math.round(distance * 10) / 10, differences };
+}
+
+function memberOf(file: FigmaFile, node: FigmaNode, page: string, path: string): LookMember {
+  const kind: MemberKind = node.type === "COMPONENT" ? "component" : node.type === "INSTANCE" ? "instance" : "one-off";
+  const component = kind === "one-off" ? undefined : classificationName(node, file);
+  return { nodeId: node.id, name: node.name, page, path, kind, ...(component ? { component } : {}) };
+}
+
+function countBy<T>(items: T[], key: (item: T) => string | undefined): Array<{ name: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const k = key(item);
+    if (k) counts.set(k, (counts.get(k) ?? 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/**
+ * Looks of every `category` node (button, card, ...), most used first, and the one-off nodes with the
+ * closest official look. "How many button styles do I have" is `looks.length`.
+ */
+export function clusterUiVariants(file: FigmaFile, category: string, rules: UiRuleSet, options: VariantOptions = {}) {
+  const heightBucket = options.heightBucket ?? 4;
+  const maxMembers = options.maxMembers ?? 20;
+  const scope: ReportScope = {
+    ...(options.pageName ? { pageName: options.pageName } : {}),
+    ...(options.rootNodeId ? { rootNodeId: options.rootNodeId } : {}),
+  };
+
+  const groups = new Map<string, { signature: VisualSignature; members: LookMember[] }>();
+  for (const { page, path, node, ancestors } of findUiNodes(file, scope, rules, category)) {
+    // A "Button bg" frame inside a Button instance is part of that button, not a one-off look of its own
+    if (ancestors.some((a) => a.type === "INSTANCE" || a.type === "COMPONENT")) continue;
+    const signature = visualSignature(node, heightBucket);
+    const key = JSON.stringify(signature);
+    const group = groups.get(key) ?? { signature, members: [] };
+    groups.set(key, group);
+    group.members.push(memberOf(file, node, page, path));
+  }
+
+  const looks: VisualLook[] = Array.from(groups.values())
+    .sort((a, b) => b.members.length - a.members.length)
+    .map((g, i) => {
+      const kinds = new Set(g.members.map((m) => m.kind));
+      return {
+        id: `look-${i + 1}`,
+        label: describeSignature(g.signature),
+        signature: g.signature,
+        kind: kinds.has("component") ? "component" : kinds.has("instance") ? "instances" : "one-off",
+        count: g.members.length,
+        components: countBy(g.members, (m) => m.component),
+        members: g.members,
+      };
+    });
+
+  const official = looks.filter((l) => l.kind !== "one-off");
+  for (const look of looks) {
+    if (look.kind !== "one-off" || official.length === 0) continue;
+    const best = official
+      .map((o) => ({ look: o, ...signatureDistance(look.signature, o.signature) }))
+      .sort((a, b) => a.distance - b.distance || b.look.count - a.look.count)[0];
+    if (!best) continue;
+    const component = best.look.components[0]?.name;
+    look.closestOfficial = {
+      look: best.look.id,
+      ...(component ? { component } : {}),
+      distance: best.distance,
+      differences: best.differences,
+    };
+  }
+
+  const oneOffs = looks.filter((l) => l.kind === "one-off");
+  const outliers = oneOffs.flatMap((l) =>
+    l.members
+      .slice(0, maxMembers)
+      .map((m) => ({ ...m, look: l.id, ...(l.closestOfficial ? { closestOfficial: l.closestOfficial } : {}) }))
+  );
+  return {
+    fileName: file.name,
+    category,
+    rules: rules.source,
+    distinctLooks: looks.length,
+    officialLooks: official.length,
+    oneOffLooks: looks.length - official.length,
+    nodes: looks.reduce((sum, l) => sum + l.count, 0),
+    looks: looks.map((l) => ({ ...l, members: l.members.slice(0, maxMembers) })),
+    outlierCount: oneOffs.reduce((sum, l) => sum + l.count, 0),
+    outliers,
+  };
+}
+
+export async function runUiVariants(fileKey: string, token: string, category: string, options: VariantOptions = {}, rules?: UiRuleSet) {
+  const ruleSet = rules ?? (await loadUiRules());
+  const file = await getFile(fileKey, token);
+  const { fileName, ...rest } = clusterUiVariants(file, category, ruleSet, options);
+  return { fileName, fileKey, ...rest };
+}
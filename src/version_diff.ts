@@ -0,0 +1,273 @@
+// Version history (files/:key/versions) and a node-level structural diff between two versions of a file.
+// Nodes are matched by id; a subtree that was added or removed is reported once at its root, with the
+// number of descendants. Fills/strokes are compared on the raw paint JSON and described as hex colors.
+
+import { getFile, getFileVersions } from "./figma_client.js";
+import { isNodeType, nodeBox, nodeChildren, visiblePaints } from "./figma_nodes.js";
+import type { FigmaFile, FigmaNode, Paint, TypeStyle } from "./figma_types.js";
+import { rgbaToHex, traverseWithPath } from "./figma_utils.js";
+
+export type FigmaVersion = {
+  id: string;
+  createdAt: string;
+  label: string | null;
+  description: string | null;
+  author: string;
+};
+
+export type NodeChange = {
+  nodeId: string;
+  path: string;
+  type: string;
+  change: "added" | "removed" | "renamed" | "moved" | "modified";
+  descendants?: number;
+  details?: Record<string, { before: unknown; after: unknown }>;
+};
+
+export type DiffOptions = {
+  maxChangesPerPage?: number;
+};
+
+type IndexedNode = { node: FigmaNode; page: string; path: string; parentId: string | undefined };
+
+/** List file versions, newest first, following the `before` cursor until `limit` entries are collected. */
+export async function listVersions(fileKey: string, token: string, limit = 20): Promise<FigmaVersion[]> {
+  const versions: FigmaVersion[] = [];
+  let before: string | undefined;
+  while (versions.length < limit) {
+    const query: Record<string, string> = { page_size: String(Math.min(50, limit - versions.length)) };
+    if (before) query.before = before;
+    const page = await getFileVersions(fileKey, token, query);
+    const items = page.versions;
+    for (const v of items) {
+      versions.push({
+        id: v.id,
+        createdAt: v.created_at,
+        label: v.label || null,
+        description: v.description || null,
+        author: v.user?.handle ?? "-",
+      });
+    }
+    const next = page.pagination?.next_page;
+    const cursor = next ? new URL(next, "https://api.figma.com").searchParams.get("before") : null;
+    if (items.length === 0 || !cursor || cursor === before) break;
+    before = cursor;
+  }
+  return versions.slice(0, limit);
+}
+
+function describePaints(paints: Paint[] | undefined): string {
+  const visible = visiblePaints(paints);
+  if (visible.length === 0) return "none";
+  return visible
+    .map((p) => (p.type === "SOLID" && p.color ? rgbaToHex(p.color, (p.color.a ?? 1) * (p.opacity ?? 1)).rgba : p.type))
+    .join(", ");
+}
+
+function sizeOf(node: FigmaNode): string | undefined {
+  const box = nodeBox(node);
+  if (!box) return undefined;
+  return `${Math.round(box.width * 100) / 100}x${Math.round(box.height * 100) / 100}`;
+}
+
+function indexDocument(document: FigmaNode): Map<string, IndexedNode> {
+  const index = new Map<string, IndexedNode>();
+  for (const page of nodeChildren(document)) {
+    const pageName = page.name || page.id || "(page)";
+    const parents = new Map<string, string>();
+    traverseWithPath(page, (n: FigmaNode, path: string[]) => {
+      for (const child of nodeChildren(n)) parents.set(child.id, n.id);
+      index.set(n.id, { node: n, page: pageName, path: path.join(" / "), parentId: parents.get(n.id) });
+    });
+  }
+  return index;
+}
+
+function countDescendants(node: FigmaNode): number {
+  return nodeChildren(node).reduce((sum, child) => sum + 1 + countDescendants(child), 0);
+}
+
+function compareNodes(before: IndexedNode, after: IndexedNode): NodeChange[] {
+  const a = before.node;
+  const b = after.node;
+  const base = { nodeId: b.id, path: after.path, type: b.type };
+  const changes: NodeChange[] = [];
+  if (a.name !== b.name) {
+    changes.push({ ...base, change: "renamed", details: { name: { before: a.name, after: b.name } } });
+  }
+  if (before.parentId !== after.parentId || before.page !== after.page) {
+    changes.push({ ...base, change: "moved", details: { location: { before: before.path, after: after.path } } });
+  }
+  const details: Record<string, { before: unknown; after: unknown }> = {};
+  if (JSON.stringify(a.fills ?? []) !== JSON.stringify(b.fills ?? [])) {
+    details.fills = { before: describePaints(a.fills), after: describePaints(b.fills) };
+  }
+  if (JSON.stringify(a.strokes ?? []) !== JSON.stringify(b.strokes ?? []) || a.strokeWeight !== b.strokeWeight) {
+    details.strokes = {
+      before: `${describePaints(a.strokes)} @${a.strokeWeight ?? 0}`,
+      after: `${describePaints(b.strokes)} @${b.strokeWeight ?? 0}`,
+    };
+  }
+  if (isNodeType(b, "TEXT")) {
+    const old = isNodeType(a, "TEXT") ? a : undefined;
+    if (old?.characters !== b.characters) details.text = { before: old?.characters ?? "", after: b.characters };
+    if (JSON.stringify(old?.style ?? {}) !== JSON.stringify(b.style ?? {})) {
+      const font = (s: TypeStyle | undefined) => `${s?.fontFamily ?? "?"} ${s?.fontWeight ?? "?"} ${s?.fontSize ?? "?"}px`;
+      details.textStyle = { before: font(old?.style), after: font(b.style) };
+    }
+  }
+  if (sizeOf(a) !== sizeOf(b)) details.size = { before: sizeOf(a) ?? "-", after: sizeOf(b) ?? "-" };
+  if ((a.visible !== false) !== (b.visible !== false)) details.visible = { before: a.visible !== false, after: b.visible !== false };
+  if (JSON.stringify(a.styles ?? {}) !== JSON.stringify(b.styles ?? {})) details.styles = { before: a.styles ?? {}, after: b.styles ?? {} };
+  if (isNodeType(b, "INSTANCE")) {
+    const oldComponentId = isNodeType(a, "INSTANCE") ? a.componentId : undefined;
+    if (oldComponentId !== b.componentId) details.componentId = { before: oldComponentId, after: b.componentId };
+  }
+  if (Object.keys(details).length > 0) changes.push({ ...base, change: "modified", details });
+  return changes;
+}
+
+function diffDictionary(before: Record<string, { name: string }>, after: Record<string, { name: string }>) {
+  const added = Object.keys(after)
+    .filter((id) => !(id in before))
+    .map((id) => ({ id, name: after[id]?.name ?? id }));
+  const removed = Object.keys(before)
+    .filter((id) => !(id in after))
+    .map((id) => ({ id, name: before[id]?.name ?? id }));
+  const renamed = Object.keys(after)
+    .filter((id) => id in before && before[id]?.name !== after[id]?.name)
+    .map((id) => ({ id, before: before[id]?.name, after: after[id]?.name }));
+  return { added, removed, renamed };
+}
+
+/** Structural diff of two file payloads (`GET files/:key`), grouped by page. */
+export function diffFiles(before: FigmaFile, after: FigmaFile, options: DiffOptions = {}) {
+  const maxChanges = options.maxChangesPerPage ?? 200;
+  const a = indexDocument(before.document);
+  const b = indexDocument(after.document);
+  const byPage = new Map<string, NodeChange[]>();
+  const add = (page: string, change: NodeChange) => {
+    const changes = byPage.get(page);
+    if (changes) changes.push(change);
+    else byPage.set(page, [change]);
+  };
+
+  for (const [id, entry] of b) {
+    const old = a.get(id);
+    if (!old) {
+      // Only the root of an added subtree is reported
+      if (entry.parentId && !a.has(entry.parentId)) continue;
+      add(entry.page, {
+        nodeId: id,
+        path: entry.path,
+        type: entry.node.type,
+        change: "added",
+        descendants: countDescendants(entry.node),
+      });
+      continue;
+    }
+    for (const change of compareNodes(old, entry)) add(entry.page, change);
+  }
+  for (const [id, entry] of a) {
+    if (b.has(id) || (entry.parentId && !b.has(entry.parentId))) continue;
+    add(entry.page, {
+      nodeId: id,
+      path: entry.path,
+      type: entry.node.type,
+      change: "removed",
+      descendants: countDescendants(entry.node),
+    });
+  }
+
+  const pages = Array.from(byPage.entries())
+    .map(([page, changes]) => ({
+      page,
+      counts: changes.reduce<Record<string, number>>((acc, c) => ({ ...acc, [c.change]: (acc[c.change] ?? 0) + 1 }), {}),
+      changes: changes.slice(0, maxChanges),
+      truncated: changes.length > maxChanges,
+    }))
+    .sort((x, y) => x.page.localeCompare(y.page));
+
+  return {
+    summary: {
+      pagesChanged: pages.length,
+      added: pages.reduce((sum, p) => sum + (p.counts.added ?? 0), 0),
+      removed: pages.reduce((sum, p) => sum + (p.counts.removed ?? 0), 0),
+      renamed: pages.reduce((sum, p) => sum + (p.counts.renamed ?? 0), 0),
+      moved: pages.reduce((sum, p) => sum + (p.counts.moved ?? 0), 0),
+      modified: pages.reduce((sum, p) => sum + (p.counts.modified ?? 0), 0),
+    },
+    components: diffDictionary(before.components, after.components),
+    styles: diffDictionary(before.styles, after.styles),
+    pages,
+  };
+}
+
+export type VersionDiff = ReturnType<typeof diffFiles> & {
+  fileName: string;
+  fileKey: string;
+  from: { version: string; label?: string };
+  to: { version: string; label?: string };
+};
+
+function mdValue(value: unknown): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return `\`${text.replace(/`/g, "'").replace(/\n/g, "\\n")}\``;
+}
+
+/** Markdown rendering meant for pasting into tickets. */
+export function renderDiffMarkdown(diff: VersionDiff): string {
+  const label = (v: { version: string; label?: string }) => (v.label ? `${v.label} (${v.version})` : v.version);
+  const s = diff.summary;
+  const lines = [
+    `# ${diff.fileName}: ${label(diff.from)} → ${label(diff.to)}`,
+    "",
+    `${s.added} added, ${s.removed} removed, ${s.renamed} renamed, ${s.moved} moved, ${s.modified} modified across ${s.pagesChanged} page(s).`,
+    "",
+  ];
+  for (const [title, dict] of [["Components", diff.components], ["Styles", diff.styles]] as const) {
+    if (dict.added.length + dict.removed.length + dict.renamed.length === 0) continue;
+    lines.push(`## ${title}`, "");
+    for (const x of dict.added) lines.push(`- Added: ${x.name}`);
+    for (const x of dict.removed) lines.push(`- Removed: ${x.name}`);
+    for (const x of dict.renamed) lines.push(`- Renamed: ${x.before} → ${x.after}`);
+    lines.push("");
+  }
+  for (const page of diff.pages) {
+    lines.push(`## ${page.page}`, "");
+    for (const c of page.changes) {
+      const extra = c.descendants ? ` (+${c.descendants} nested)` : "";
+      lines.push(`- **${c.change}** ${c.type} \`${c.path}\`${extra}`);
+      for (const [field, d] of Object.entries(c.details ?? {})) {
+        lines.push(`  - ${field}: ${mdValue(d.before)} → ${mdValue(d.after)}`);
+      }
+    }
+    if (page.truncated) lines.push("- …more changes not shown");
+    lines.push("");
+  }
+  return lines.join("\n");
+}
+
+/** Fetch two versions of the file (`toVersion` defaults to the current one) and diff them. */
+export async function diffVersions(
+  fileKey: string,
+  token: string,
+  fromVersion: string,
+  toVersion?: string,
+  options: DiffOptions = {}
+): Promise<VersionDiff> {
+  const before = await getFile(fileKey, token, { version: fromVersion });
+  const after = await getFile(fileKey, token, toVersion ? { version: toVersion } : {});
+  const versions = await listVersions(fileKey, token, 100).catch(() => [] as FigmaVersion[]);
+  const describe = (version: string) => {
+    const found = versions.find((v) => v.id === version);
+    return found?.label ? { version, label: found.label } : { version };
+  };
+  return {
+    fileName: after.name,
+    fileKey,
+    from: describe(fromVersion),
+    to: describe(toVersion ?? after.version ?? "current"),
+    ...diffFiles(before, after, options),
+  };
+}